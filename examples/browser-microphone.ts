@@ -0,0 +1,33 @@
+/**
+ * Live microphone transcription in the browser with dTelecom STT.
+ *
+ * Bundle with any bundler that honours the `browser` field (Vite,
+ * webpack, esbuild with platform=browser) and call `start()` from a click
+ * handler, since browsers only start audio after a user gesture.
+ *
+ * The wallet key is injected at build time here for brevity; anyone who
+ * loads the page can read it, so only use a low-balance key.
+ */
+
+import { STTClient, captureMicrophone, consoleLogger } from "../src/index.js";
+
+declare const DTELECOM_PRIVATE_KEY: string;
+
+export async function start(output: HTMLElement): Promise<() => Promise<void>> {
+  const client = new STTClient({ privateKey: DTELECOM_PRIVATE_KEY, logger: consoleLogger });
+  const stream = await client.session({ minutes: 5, language: "en" }).open();
+  stream.onTranscription((t) => {
+    if (t.isFinal) output.textContent += `${t.text} `;
+  });
+
+  const media = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const capture = await captureMicrophone(stream, media, {
+    onError: (e) => console.error("Send failed", e),
+  });
+
+  return async () => {
+    await capture.stop();
+    for (const track of media.getTracks()) track.stop();
+    await stream.close();
+  };
+}
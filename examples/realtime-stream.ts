@@ -7,7 +7,7 @@
  *   npx tsx examples/realtime-stream.ts [language]
  */
 
-import { STTClient } from "../src/index.js";
+import { LANGUAGES, STTClient, consoleLogger, isLanguage } from "../src/index.js";
 
 async function main() {
   const privateKey = process.env.DTELECOM_PRIVATE_KEY;
@@ -17,7 +17,11 @@ async function main() {
   }
 
   const language = process.argv[2] ?? "en";
-  const client = new STTClient({ privateKey });
+  if (!isLanguage(language)) {
+    console.error(`Error: unsupported language "${language}"; expected one of: ${LANGUAGES.join(", ")}`);
+    process.exit(1);
+  }
+  const client = new STTClient({ privateKey, logger: consoleLogger });
 
   console.log(`Starting real-time STT (language=${language})...`);
   console.log("Speak into your microphone. Press Ctrl+C to stop.\n");
@@ -6,13 +6,13 @@
  *   npx tsx examples/transcribe-file.ts path/to/audio.wav
  */
 
-import { STTClient } from "../src/index.js";
+import { STTClient, consoleLogger } from "../src/index.js";
 
 async function main() {
   const wavPath = process.argv[2];
   if (!wavPath) {
     console.log("Usage: npx tsx examples/transcribe-file.ts <audio.wav>");
-    console.log("  Audio must be PCM16, 16kHz, mono.");
+    console.log("  Any PCM or float WAV; converted to 16kHz mono automatically.");
     console.log("  Set DTELECOM_PRIVATE_KEY env var with your wallet key.");
     process.exit(1);
   }
@@ -23,7 +23,7 @@ async function main() {
     process.exit(1);
   }
 
-  const client = new STTClient({ privateKey });
+  const client = new STTClient({ privateKey, logger: consoleLogger });
 
   // Check pricing first
   const info = await client.pricing();
@@ -1,5 +1,15 @@
-import { readFileSync } from "node:fs";
+import {
+  EMPTY_BYTES,
+  ascii,
+  concatBytes,
+  copyBytes,
+  dataView,
+  toBytes,
+} from "./bytes.js";
+import type { AudioData } from "./bytes.js";
 import { AudioFormatError } from "./errors.js";
+import { readAudioFile } from "./file.js";
+import { alawToFloat, mulawToFloat } from "./g711.js";
 
 /** PCM16 mono 16kHz constants. */
 export const SAMPLE_RATE = 16000;
@@ -7,35 +17,101 @@ export const SAMPLE_WIDTH = 2; // 16-bit = 2 bytes
 export const CHANNELS = 1;
 export const BYTES_PER_SECOND = SAMPLE_RATE * SAMPLE_WIDTH * CHANNELS; // 32000
 
+/** WAV format codes. */
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_ALAW = 6;
+const WAVE_FORMAT_MULAW = 7;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/** Resampler filter: zero crossings per side and cutoff relative to Nyquist. */
+const RESAMPLE_ZERO_CROSSINGS = 16;
+const RESAMPLE_ROLLOFF = 0.95;
+/** Kernel table resolution, in entries per input sample. */
+const RESAMPLE_TABLE_RESOLUTION = 64;
+
 export interface WavData {
-  pcmData: Buffer;
+  pcmData: Uint8Array;
   sampleRate: number;
   channels: number;
   sampleWidth: number;
 }
 
+export interface LoadWavOptions {
+  /**
+   * Reject anything that is not already PCM16, 16kHz, mono instead of
+   * converting it (default false).
+   */
+  strict?: boolean;
+}
+
+/** Parsed WAV header and a view of its data chunk. */
+export interface WavHeader {
+  /** Effective format code (1 = PCM, 3 = IEEE float), extensible resolved. */
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  data: Uint8Array;
+}
+
 /**
- * Load a WAV file and validate that it is PCM16, 16kHz, mono.
+ * Bytes of a WAV file given as a path (Node only) or already in memory.
+ */
+export function wavInput(file: string | AudioData): Uint8Array {
+  if (typeof file !== "string") return toBytes(file);
+  // Stubbed out by bundlers outside Node
+  if (typeof readAudioFile !== "function") {
+    throw new AudioFormatError("Reading files by path needs Node; pass the file's bytes instead");
+  }
+  return readAudioFile(file);
+}
+
+/**
+ * Decode WAV file bytes to PCM16, 16kHz, mono.
+ * Other sample rates, channel counts and 8/24/32-bit integer or float
+ * samples are converted, unless `strict` is set.
  * Returns the raw PCM data and format info.
  */
-export function loadWav(path: string): WavData {
-  let buf: Buffer;
-  try {
-    buf = readFileSync(path);
-  } catch (e: unknown) {
-    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
-      throw new AudioFormatError(`File not found: ${path}`);
-    }
-    throw new AudioFormatError(`Cannot read file: ${path}`);
+export function decodeWav(bytes: Uint8Array, options?: LoadWavOptions): WavData {
+  const header = parseWav(bytes);
+  if (options?.strict) {
+    validateStrict(header);
+    return {
+      pcmData: header.data,
+      sampleRate: header.sampleRate,
+      channels: header.channels,
+      sampleWidth: header.bitsPerSample / 8,
+    };
   }
 
-  // Parse WAV header
+  return {
+    pcmData: toPcm16Mono16k(header),
+    sampleRate: SAMPLE_RATE,
+    channels: CHANNELS,
+    sampleWidth: SAMPLE_WIDTH,
+  };
+}
+
+/** Duration of WAV file bytes in seconds, without decoding the audio. */
+export function measureWav(bytes: Uint8Array): number {
+  const { data, channels, sampleRate, bitsPerSample } = parseWav(bytes);
+  const frameBytes = channels * Math.ceil(bitsPerSample / 8);
+  if (frameBytes === 0 || sampleRate === 0) {
+    throw new AudioFormatError("Cannot read WAV file: invalid format chunk");
+  }
+  return Math.floor(data.length / frameBytes) / sampleRate;
+}
+
+/** Parse RIFF/WAVE bytes into their format fields and data chunk. */
+export function parseWav(buf: Uint8Array): WavHeader {
   if (buf.length < 44) {
     throw new AudioFormatError("Cannot read WAV file: file too small");
   }
 
-  const riff = buf.toString("ascii", 0, 4);
-  const wave = buf.toString("ascii", 8, 12);
+  const view = dataView(buf);
+  const riff = ascii(buf, 0, 4);
+  const wave = ascii(buf, 8, 12);
   if (riff !== "RIFF" || wave !== "WAVE") {
     throw new AudioFormatError("Cannot read WAV file: not a valid WAV");
   }
@@ -43,21 +119,24 @@ export function loadWav(path: string): WavData {
   // Find "fmt " chunk
   let offset = 12;
   let fmtOffset = -1;
+  let fmtSize = 0;
   let dataOffset = -1;
   let dataSize = 0;
 
   while (offset < buf.length - 8) {
-    const chunkId = buf.toString("ascii", offset, offset + 4);
-    const chunkSize = buf.readUInt32LE(offset + 4);
+    const chunkId = ascii(buf, offset, offset + 4);
+    const chunkSize = view.getUint32(offset + 4, true);
 
     if (chunkId === "fmt ") {
       fmtOffset = offset + 8;
+      fmtSize = chunkSize;
     } else if (chunkId === "data") {
       dataOffset = offset + 8;
       dataSize = chunkSize;
       break; // data is always the last chunk we care about
     }
-    offset += 8 + chunkSize;
+    // Chunks are word-aligned
+    offset += 8 + chunkSize + (chunkSize % 2);
   }
 
   if (fmtOffset === -1) {
@@ -67,13 +146,26 @@ export function loadWav(path: string): WavData {
     throw new AudioFormatError("Cannot read WAV file: no data chunk");
   }
 
-  const audioFormat = buf.readUInt16LE(fmtOffset); // 1 = PCM
-  const channels = buf.readUInt16LE(fmtOffset + 2);
-  const sampleRate = buf.readUInt32LE(fmtOffset + 4);
-  const bitsPerSample = buf.readUInt16LE(fmtOffset + 14);
-  const sampleWidth = bitsPerSample / 8;
+  let audioFormat = view.getUint16(fmtOffset, true);
+  const channels = view.getUint16(fmtOffset + 2, true);
+  const sampleRate = view.getUint32(fmtOffset + 4, true);
+  const bitsPerSample = view.getUint16(fmtOffset + 14, true);
+
+  // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID
+  if (audioFormat === WAVE_FORMAT_EXTENSIBLE && fmtSize >= 40) {
+    audioFormat = view.getUint16(fmtOffset + 24, true);
+  }
+
+  // Streamed WAVs may declare a bogus data size; clamp to what is present
+  const dataEnd = Math.min(dataOffset + dataSize, buf.length);
+  const data = buf.subarray(dataOffset, dataEnd);
+  return { audioFormat, channels, sampleRate, bitsPerSample, data };
+}
 
-  if (audioFormat !== 1) {
+/** Throw unless the WAV is already PCM16, 16kHz, mono. */
+function validateStrict(header: WavHeader): void {
+  const { audioFormat, sampleRate, channels, bitsPerSample } = header;
+  if (audioFormat !== WAVE_FORMAT_PCM) {
     throw new AudioFormatError(
       `Expected PCM format (1), got ${audioFormat}. Convert with: ffmpeg -i input.wav -acodec pcm_s16le output.wav`
     );
@@ -88,23 +180,436 @@ export function loadWav(path: string): WavData {
       `Expected mono, got ${channels} channels. Convert with: ffmpeg -i input.wav -ac 1 output.wav`
     );
   }
-  if (sampleWidth !== SAMPLE_WIDTH) {
+  if (bitsPerSample / 8 !== SAMPLE_WIDTH) {
     throw new AudioFormatError(
       `Expected 16-bit, got ${bitsPerSample}-bit. Convert with: ffmpeg -i input.wav -acodec pcm_s16le output.wav`
     );
   }
+}
+
+/** Convert any supported WAV payload to PCM16, 16kHz, mono. */
+function toPcm16Mono16k(header: WavHeader): Uint8Array {
+  const { audioFormat, channels, sampleRate, bitsPerSample } = header;
+  if (
+    audioFormat === WAVE_FORMAT_PCM &&
+    sampleRate === SAMPLE_RATE &&
+    channels === CHANNELS &&
+    bitsPerSample === SAMPLE_WIDTH * 8
+  ) {
+    return header.data;
+  }
+  checkLayout(header);
+
+  const samples = decodeSamples(header);
+  const mono = downmix(samples, channels);
+  return floatToPcm16(resample(mono, sampleRate, SAMPLE_RATE));
+}
 
-  const pcmData = buf.subarray(dataOffset, dataOffset + dataSize);
-  return { pcmData, sampleRate, channels, sampleWidth };
+/**
+ * Decode WAV file bytes to one PCM16 16kHz buffer per channel, in channel
+ * order, for transcribing each channel separately.
+ */
+export function decodeWavChannels(bytes: Uint8Array): Uint8Array[] {
+  const header = parseWav(bytes);
+  checkLayout(header);
+  const { channels, sampleRate } = header;
+  const samples = decodeSamples(header);
+  return Array.from({ length: channels }, (_, c) =>
+    floatToPcm16(resample(extractChannel(samples, channels, c), sampleRate, SAMPLE_RATE))
+  );
+}
+
+function checkLayout(header: WavHeader): void {
+  if (header.channels < 1) {
+    throw new AudioFormatError("Cannot read WAV file: zero channels");
+  }
+  if (header.sampleRate < 1) {
+    throw new AudioFormatError("Cannot read WAV file: invalid sample rate");
+  }
+}
+
+/**
+ * Decode interleaved WAV samples to floats in [-1, 1].
+ * Supports 8/16/24/32-bit integer PCM, 32/64-bit IEEE float and
+ * 8-bit G.711 A-law / μ-law.
+ */
+export function decodeSamples(header: WavHeader): Float32Array {
+  const { audioFormat, bitsPerSample, data } = header;
+  if (bitsPerSample === 0) {
+    throw new AudioFormatError("Cannot read WAV file: invalid format chunk (0 bits per sample)");
+  }
+  const view = dataView(data);
+  const width = bitsPerSample / 8;
+  const count = Math.floor(data.length / width);
+  const out = new Float32Array(count);
+
+  if (audioFormat === WAVE_FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8: // unsigned
+        for (let i = 0; i < count; i++) out[i] = (data[i] - 128) / 128;
+        return out;
+      case 16:
+        for (let i = 0; i < count; i++) out[i] = view.getInt16(i * 2, true) / 32768;
+        return out;
+      case 24:
+        for (let i = 0; i < count; i++) {
+          const b = i * 3;
+          // Sign-extend from bit 23
+          const v = ((data[b] | (data[b + 1] << 8) | (data[b + 2] << 16)) << 8) >> 8;
+          out[i] = v / 8388608;
+        }
+        return out;
+      case 32:
+        for (let i = 0; i < count; i++) out[i] = view.getInt32(i * 4, true) / 2147483648;
+        return out;
+    }
+  } else if (audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+    switch (bitsPerSample) {
+      case 32:
+        for (let i = 0; i < count; i++) out[i] = view.getFloat32(i * 4, true);
+        return out;
+      case 64:
+        for (let i = 0; i < count; i++) out[i] = view.getFloat64(i * 8, true);
+        return out;
+    }
+  } else if (audioFormat === WAVE_FORMAT_ALAW && bitsPerSample === 8) {
+    return alawToFloat(data);
+  } else if (audioFormat === WAVE_FORMAT_MULAW && bitsPerSample === 8) {
+    return mulawToFloat(data);
+  } else if (audioFormat !== WAVE_FORMAT_ALAW && audioFormat !== WAVE_FORMAT_MULAW) {
+    throw new AudioFormatError(
+      `Unsupported WAV format code ${audioFormat}. Convert with: ffmpeg -i input.wav -acodec pcm_s16le output.wav`
+    );
+  }
+  throw new AudioFormatError(
+    `Unsupported ${bitsPerSample}-bit samples for WAV format ${audioFormat}`
+  );
+}
+
+/** Average interleaved channels into a single mono signal. */
+export function downmix(samples: Float32Array, channels: number): Float32Array {
+  if (channels === 1) return samples;
+  const frames = Math.floor(samples.length / channels);
+  const out = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) sum += samples[i * channels + c];
+    out[i] = sum / channels;
+  }
+  return out;
+}
+
+/** Take one channel out of interleaved samples. */
+export function extractChannel(
+  samples: Float32Array,
+  channels: number,
+  channel: number
+): Float32Array {
+  if (channels === 1) return samples;
+  const frames = Math.floor(samples.length / channels);
+  const out = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) out[i] = samples[i * channels + channel];
+  return out;
+}
+
+/**
+ * Resample a mono float signal with a Blackman-windowed sinc filter.
+ * The cutoff sits just below the lower of the two Nyquist frequencies,
+ * so downsampling is anti-aliased.
+ */
+export function resample(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number
+): Float32Array {
+  if (fromRate === toRate) return input;
+  const resampler = new StreamResampler(fromRate, toRate);
+  const head = resampler.process(input);
+  const tail = resampler.flush();
+  const out = new Float32Array(head.length + tail.length);
+  out.set(head);
+  out.set(tail, head.length);
+  return out;
+}
+
+/**
+ * Stateful windowed-sinc resampler for audio that arrives in chunks.
+ * Keeps enough input history that chunk boundaries are seamless; output
+ * lags input by the filter half-width until `flush()` is called.
+ */
+export class StreamResampler {
+  private _ratio: number;
+  private _halfWidth: number;
+  private _kernel: Float64Array;
+
+  /** Pending input samples; `_buf[0]` is absolute input index `_bufStart`. */
+  private _buf = new Float32Array(0);
+  private _bufStart = 0;
+  /** Absolute index of the next output sample. */
+  private _nextOut = 0;
+
+  constructor(fromRate: number, toRate: number) {
+    this._ratio = toRate / fromRate;
+    // Cutoff as a fraction of the input Nyquist frequency
+    const cutoff = Math.min(1, this._ratio) * RESAMPLE_ROLLOFF;
+    this._halfWidth = Math.ceil(RESAMPLE_ZERO_CROSSINGS / cutoff);
+    this._kernel = windowedSincTable(cutoff, this._halfWidth);
+  }
+
+  /** Feed input samples; returns every output sample that is now complete. */
+  process(input: Float32Array): Float32Array {
+    const merged = new Float32Array(this._buf.length + input.length);
+    merged.set(this._buf);
+    merged.set(input, this._buf.length);
+    this._buf = merged;
+
+    const available = this._bufStart + this._buf.length;
+    // Output i needs input up to floor(i / ratio + halfWidth)
+    const end = Math.max(
+      this._nextOut,
+      Math.floor((available - 1 - this._halfWidth) * this._ratio) + 1
+    );
+    return this._produce(end);
+  }
+
+  /** Emit the remaining output, treating the input as ended. */
+  flush(): Float32Array {
+    const total = this._bufStart + this._buf.length;
+    const end = Math.max(this._nextOut, Math.floor(total * this._ratio));
+    return this._produce(end);
+  }
+
+  private _produce(end: number): Float32Array {
+    const out = new Float32Array(end - this._nextOut);
+    const total = this._bufStart + this._buf.length;
+    const buf = this._buf;
+    const kernel = this._kernel;
+
+    for (let n = 0; n < out.length; n++) {
+      const center = (this._nextOut + n) / this._ratio;
+      const first = Math.max(0, Math.ceil(center - this._halfWidth));
+      const last = Math.min(total - 1, Math.floor(center + this._halfWidth));
+
+      let acc = 0;
+      let norm = 0;
+      for (let k = first; k <= last; k++) {
+        const pos = Math.abs(k - center) * RESAMPLE_TABLE_RESOLUTION;
+        const idx = Math.floor(pos);
+        const frac = pos - idx;
+        const w = kernel[idx] + (kernel[idx + 1] - kernel[idx]) * frac;
+        acc += buf[k - this._bufStart] * w;
+        norm += w;
+      }
+      out[n] = norm !== 0 ? acc / norm : 0;
+    }
+    this._nextOut = end;
+
+    // Drop input no longer needed by the next output sample
+    const keepFrom = Math.min(
+      total,
+      Math.max(this._bufStart, Math.ceil(this._nextOut / this._ratio - this._halfWidth))
+    );
+    if (keepFrom > this._bufStart) {
+      this._buf = this._buf.slice(keepFrom - this._bufStart);
+      this._bufStart = keepFrom;
+    }
+    return out;
+  }
+}
+
+/** Input encodings accepted by `Stream.sendAudio`. */
+export type AudioEncoding = "pcm16" | "mulaw" | "alaw";
+
+/** Format of audio chunks passed to `Stream.sendAudio`. */
+export interface AudioInputFormat {
+  /** Sample encoding (default "pcm16"). */
+  encoding?: AudioEncoding;
+  /** Input sample rate in Hz (default 16000, or 8000 for G.711). */
+  sampleRate?: number;
+}
+
+/**
+ * Streaming converter from an input format to the server's PCM16 16kHz
+ * mono. Resampler state is carried between chunks.
+ */
+export class AudioConverter {
+  readonly encoding: AudioEncoding;
+  readonly sampleRate: number;
+  private _resampler: StreamResampler | null;
+  /** Odd trailing byte of a PCM16 chunk, prepended to the next one. */
+  private _carry: Uint8Array | null = null;
+
+  constructor(format: AudioInputFormat) {
+    this.encoding = format.encoding ?? "pcm16";
+    this.sampleRate = defaultRate(this.encoding, format.sampleRate);
+    if (this.sampleRate < 1) {
+      throw new AudioFormatError(`Invalid sample rate: ${this.sampleRate}`);
+    }
+    this._resampler =
+      this.sampleRate === SAMPLE_RATE
+        ? null
+        : new StreamResampler(this.sampleRate, SAMPLE_RATE);
+  }
+
+  /** True when input already matches the server format. */
+  get passthrough(): boolean {
+    return this.encoding === "pcm16" && this._resampler === null;
+  }
+
+  /** True if `format` resolves to this converter's encoding and rate. */
+  matches(format: AudioInputFormat): boolean {
+    const encoding = format.encoding ?? "pcm16";
+    return (
+      encoding === this.encoding &&
+      defaultRate(encoding, format.sampleRate) === this.sampleRate
+    );
+  }
+
+  /**
+   * Convert one chunk; may return fewer samples while the filter fills.
+   * PCM16 output always holds whole samples, an odd trailing byte being
+   * held for the next chunk.
+   */
+  convert(data: Uint8Array): Uint8Array {
+    if (this.encoding === "pcm16") data = this._wholeSamples(data);
+    if (this.passthrough) return data;
+    const samples = this._decode(data);
+    return floatToPcm16(this._resampler ? this._resampler.process(samples) : samples);
+  }
+
+  /** Return any audio still held in the resampler. */
+  flush(): Uint8Array {
+    if (!this._resampler) return EMPTY_BYTES;
+    return floatToPcm16(this._resampler.flush());
+  }
+
+  private _decode(data: Uint8Array): Float32Array {
+    if (this.encoding === "mulaw") return mulawToFloat(data);
+    if (this.encoding === "alaw") return alawToFloat(data);
+
+    const view = dataView(data);
+    const out = new Float32Array(data.length / SAMPLE_WIDTH);
+    for (let i = 0; i < out.length; i++) out[i] = view.getInt16(i * 2, true) / 32768;
+    return out;
+  }
+
+  /** Prepend the carried byte and hold back an odd trailing one. */
+  private _wholeSamples(data: Uint8Array): Uint8Array {
+    if (this._carry) {
+      data = concatBytes([this._carry, data]);
+      this._carry = null;
+    }
+    if (data.length % SAMPLE_WIDTH !== 0) {
+      this._carry = copyBytes(data.subarray(data.length - 1));
+      data = data.subarray(0, data.length - 1);
+    }
+    return data;
+  }
+}
+
+/** Input rate, defaulting to 8kHz for G.711 and 16kHz for PCM16. */
+function defaultRate(encoding: AudioEncoding, sampleRate?: number): number {
+  return sampleRate ?? (encoding === "pcm16" ? SAMPLE_RATE : 8000);
+}
+
+/** Tabulate one side of the windowed-sinc kernel, indexed by distance. */
+function windowedSincTable(cutoff: number, halfWidth: number): Float64Array {
+  const size = halfWidth * RESAMPLE_TABLE_RESOLUTION + 2;
+  const table = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = i / RESAMPLE_TABLE_RESOLUTION;
+    if (x >= halfWidth) break;
+    const t = Math.PI * cutoff * x;
+    const sinc = x === 0 ? 1 : Math.sin(t) / t;
+    const w = x / halfWidth;
+    const blackman = 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w);
+    table[i] = cutoff * sinc * blackman;
+  }
+  return table;
+}
+
+/**
+ * Convert float samples in [-1, 1] to PCM16 little-endian bytes, clipping.
+ * Scaled by 32768 like the decoders, so 16-bit and G.711 input is exact.
+ */
+export function floatToPcm16(samples: Float32Array): Uint8Array {
+  const out = new Uint8Array(samples.length * SAMPLE_WIDTH);
+  const view = dataView(out);
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.round(samples[i] * 32768);
+    view.setInt16(i * 2, Math.max(-32768, Math.min(32767, v)), true);
+  }
+  return out;
 }
 
 /** Generate PCM16 silence bytes (16kHz mono). */
-export function silence(durationSeconds: number): Buffer {
+export function silence(durationSeconds: number): Uint8Array {
   const numBytes = Math.floor(BYTES_PER_SECOND * durationSeconds);
-  return Buffer.alloc(numBytes);
+  return new Uint8Array(numBytes);
 }
 
 /** Helper: sleep for ms. */
 export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/**
+ * Fixed-capacity byte ring buffer for PCM audio.
+ * When full, the oldest bytes are overwritten so the newest audio is kept.
+ */
+export class AudioRingBuffer {
+  private _buf: Uint8Array;
+  private _start = 0;
+  private _length = 0;
+
+  constructor(capacityBytes: number) {
+    // Keep capacity sample-aligned so dropped audio never splits a sample
+    const aligned = capacityBytes - (capacityBytes % SAMPLE_WIDTH);
+    this._buf = new Uint8Array(Math.max(aligned, 0));
+  }
+
+  /** Number of buffered bytes. */
+  get length(): number {
+    return this._length;
+  }
+
+  /** Append bytes, dropping the oldest ones if capacity is exceeded. */
+  write(data: Uint8Array): void {
+    const capacity = this._buf.length;
+    if (capacity === 0) return;
+    if (data.length >= capacity) {
+      this._buf.set(data.subarray(data.length - capacity));
+      this._start = 0;
+      this._length = capacity;
+      return;
+    }
+
+    const overflow = this._length + data.length - capacity;
+    if (overflow > 0) {
+      this._start = (this._start + overflow) % capacity;
+      this._length -= overflow;
+    }
+
+    const end = (this._start + this._length) % capacity;
+    const firstPart = Math.min(data.length, capacity - end);
+    this._buf.set(data.subarray(0, firstPart), end);
+    if (firstPart < data.length) {
+      this._buf.set(data.subarray(firstPart));
+    }
+    this._length += data.length;
+  }
+
+  /** Remove and return all buffered bytes in order. */
+  drain(): Uint8Array {
+    const capacity = this._buf.length;
+    const out = new Uint8Array(this._length);
+    const firstPart = Math.min(this._length, capacity - this._start);
+    out.set(this._buf.subarray(this._start, this._start + firstPart));
+    if (firstPart < this._length) {
+      out.set(this._buf.subarray(0, this._length - firstPart), firstPart);
+    }
+    this._start = 0;
+    this._length = 0;
+    return out;
+  }
+}
@@ -0,0 +1,211 @@
+import type { SessionOptions } from "./client.js";
+import { SessionExpiredError, STTError } from "./errors.js";
+import { TypedEmitter } from "./events.js";
+import { throwIfAborted } from "./http.js";
+import type { Language } from "./languages.js";
+import type { PaymentLedger, SharedBudget } from "./ledger.js";
+import type { Logger } from "./logger.js";
+import type { Stream, TranscribeFileOptions } from "./stream.js";
+import { TranscriptBuilder } from "./transcript.js";
+import type { SessionHandle } from "./types.js";
+import type { VadOptions } from "./vad.js";
+
+const DEFAULT_CONCURRENCY = 4;
+
+export interface BatchOptions extends TranscribeFileOptions {
+  /** Files transcribed at once, each on its own session (default 4). */
+  concurrency?: number;
+  language?: Language;
+  /** Minutes bought per auto-extension (default 5). */
+  extendMinutes?: number;
+  /** Maximum USD the whole batch may spend, across all its sessions. */
+  maxSpendUsd?: number;
+  /** Maximum minutes the whole batch may buy, across all its sessions. */
+  maxTotalMinutes?: number;
+  /** Drop silence client-side before sending (see `SessionOptions.vad`). */
+  vad?: boolean | VadOptions;
+}
+
+/** Outcome of one file. Exactly one of `transcript` and `error` is set. */
+export interface BatchFileResult {
+  file: string;
+  /** Position of the file in the input list. */
+  index: number;
+  transcript: TranscriptBuilder | null;
+  error: Error | null;
+  /** Session the file was streamed on, if one was opened. */
+  sessionId: string | null;
+}
+
+/** Payload of the `fileStarted` event emitted by `Batch`. */
+export interface BatchFileStartedEvent {
+  file: string;
+  index: number;
+  sessionId: string;
+}
+
+/** Payload of the `progress` event emitted by `Batch`. */
+export interface BatchProgressEvent {
+  /** Files finished so far, successfully or not. */
+  completed: number;
+  failed: number;
+  total: number;
+  /** USD paid so far by the batch's sessions. */
+  spentUsd: number;
+}
+
+/** Events emitted by `Batch`, with their listener arguments. */
+export interface BatchEvents {
+  fileStarted: [BatchFileStartedEvent];
+  fileCompleted: [BatchFileResult];
+  progress: [BatchProgressEvent];
+}
+
+/** @internal The parts of `STTClient` a batch uses. */
+export interface BatchClient {
+  readonly ledger: PaymentLedger;
+  readonly _logger: Logger;
+  _openSession(options: SessionOptions, budget: SharedBudget): Promise<Stream>;
+  _resumeSession(
+    handle: SessionHandle,
+    options: SessionOptions,
+    budget: SharedBudget
+  ): Promise<Stream>;
+}
+
+/**
+ * A running batch transcription. Do not instantiate directly — use
+ * `STTClient.transcribeBatch()`.
+ *
+ * Each worker opens a session sized to its next file and keeps streaming
+ * files through it, relying on auto-extend, until the session ends or the
+ * queue is empty. Each file gets its own connection to the session, since
+ * server timestamps count from the start of the connection. A failed file
+ * is recorded and the batch moves on.
+ * Await `results` for every file's outcome, in input order.
+ */
+export class Batch extends TypedEmitter<BatchEvents> {
+  /** Resolves once every file has completed or failed; never rejects. */
+  readonly results: Promise<BatchFileResult[]>;
+  readonly total: number;
+
+  private _client: BatchClient;
+  private _files: string[];
+  private _options: BatchOptions;
+  private _budget: SharedBudget;
+  private _results: BatchFileResult[] = [];
+  private _next = 0;
+  private _completed = 0;
+  private _failed = 0;
+
+  /** @internal */
+  constructor(client: BatchClient, files: string[], options?: BatchOptions) {
+    super();
+    this._client = client;
+    this._files = [...files];
+    this._options = options ?? {};
+    this._budget = {
+      limits: {
+        maxSpendUsd: options?.maxSpendUsd,
+        maxTotalMinutes: options?.maxTotalMinutes,
+      },
+      sessionIds: new Set(),
+    };
+    this.total = this._files.length;
+    this.results = this._run();
+  }
+
+  /** USD paid so far by the batch's sessions. */
+  get spentUsd(): number {
+    let usd = 0;
+    for (const id of this._budget.sessionIds) usd += this._client.ledger.totalUsd(id);
+    return usd;
+  }
+
+  private async _run(): Promise<BatchFileResult[]> {
+    // Let the caller attach listeners before the first event
+    await new Promise((resolve) => setTimeout(resolve));
+
+    const concurrency = Math.max(1, Math.floor(this._options.concurrency ?? DEFAULT_CONCURRENCY));
+    const workers = Math.min(concurrency, this.total);
+    this._client._logger.info("Batch started", { files: this.total, workers });
+    await Promise.all(Array.from({ length: workers }, () => this._worker()));
+    this._client._logger.info("Batch finished", {
+      files: this.total,
+      failed: this._failed,
+      spentUsd: this.spentUsd,
+    });
+    return this._results;
+  }
+
+  private async _worker(): Promise<void> {
+    let stream: Stream | null = null;
+
+    while (this._next < this.total) {
+      const index = this._next++;
+      const file = this._files[index];
+      let sessionId: string | null = null;
+
+      try {
+        const previous = stream;
+        stream = null;
+        stream = await this._streamFor(file, previous);
+        sessionId = stream.sessionId;
+        this.emit("fileStarted", { file, index, sessionId });
+        const transcript = await TranscriptBuilder.collect(
+          stream.transcribeFile(file, this._options)
+        );
+        this._complete({ file, index, transcript, error: null, sessionId });
+      } catch (e: unknown) {
+        const error = e instanceof Error ? e : new STTError(String(e));
+        this._client._logger.warn("Batch file failed", { file, sessionId, error: error.message });
+        this._complete({ file, index, transcript: null, error, sessionId });
+      }
+    }
+    if (stream) await stream.close();
+  }
+
+  /**
+   * A new connection for `file`: the previous file's session reopened if
+   * it has time left, else a new session. Once the batch's signal is
+   * aborted, the remaining files fail without connecting.
+   */
+  private async _streamFor(file: string, previous: Stream | null): Promise<Stream> {
+    const handle = previous?.exportSession();
+    await previous?.close();
+    throwIfAborted(this._options.signal);
+    if (handle && handle.remainingSeconds > 0) {
+      try {
+        return await this._client._resumeSession(handle, this._sessionOptions(), this._budget);
+      } catch (e: unknown) {
+        if (!(e instanceof SessionExpiredError)) throw e;
+      }
+    }
+    return this._client._openSession(
+      { ...this._sessionOptions(), minutes: "auto", forFile: file },
+      this._budget
+    );
+  }
+
+  private _sessionOptions(): SessionOptions {
+    return {
+      language: this._options.language,
+      extendMinutes: this._options.extendMinutes,
+      vad: this._options.vad,
+      signal: this._options.signal,
+    };
+  }
+
+  private _complete(result: BatchFileResult): void {
+    this._results[result.index] = result;
+    this._completed++;
+    if (result.error) this._failed++;
+    this.emit("fileCompleted", result);
+    this.emit("progress", {
+      completed: this._completed,
+      failed: this._failed,
+      total: this.total,
+      spentUsd: this.spentUsd,
+    });
+  }
+}
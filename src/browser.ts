@@ -0,0 +1,177 @@
+/**
+ * Microphone capture for browsers. Typed structurally so the SDK builds
+ * without the DOM library; pass the real `MediaStream` and `AudioContext`.
+ */
+
+import {
+  BYTES_PER_SECOND,
+  SAMPLE_RATE,
+  SAMPLE_WIDTH,
+  StreamResampler,
+  floatToPcm16,
+} from "./audio.js";
+import { concatBytes } from "./bytes.js";
+import { STTError } from "./errors.js";
+import type { Stream } from "./stream.js";
+
+const PROCESSOR_NAME = "dtelecom-stt-capture";
+
+/** Posts each render quantum of the first input, downmixed to mono. */
+const WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channels = inputs[0];
+    if (channels && channels.length > 0) {
+      const mono = new Float32Array(channels[0].length);
+      for (const channel of channels) {
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+      }
+      this.port.postMessage(mono, [mono.buffer]);
+    }
+    return true;
+  }
+}
+registerProcessor("${PROCESSOR_NAME}", CaptureProcessor);
+`;
+
+/** A `MediaStream`, e.g. from `navigator.mediaDevices.getUserMedia({ audio: true })`. */
+export interface MediaStreamLike {
+  getAudioTracks(): unknown[];
+}
+
+interface AudioNodeLike {
+  connect(destination: AudioNodeLike): unknown;
+  disconnect(): void;
+}
+
+/** The parts of a WHATWG `AudioContext` capture uses. */
+export interface AudioContextLike {
+  readonly sampleRate: number;
+  readonly audioWorklet: { addModule(url: string): Promise<void> };
+  createMediaStreamSource(stream: MediaStreamLike): AudioNodeLike;
+  close(): Promise<void>;
+}
+
+interface CaptureNode extends AudioNodeLike {
+  port: {
+    onmessage: ((event: { data: Float32Array }) => void) | null;
+    close(): void;
+  };
+}
+
+interface BrowserGlobals {
+  AudioContext?: new () => AudioContextLike;
+  AudioWorkletNode?: new (
+    context: AudioContextLike,
+    name: string,
+    options: { numberOfOutputs: number }
+  ) => CaptureNode;
+  Blob?: new (parts: string[], options: { type: string }) => unknown;
+  URL?: { createObjectURL(blob: unknown): string; revokeObjectURL(url: string): void };
+}
+
+export interface CaptureMicrophoneOptions {
+  /**
+   * Context to capture with (default: a new one, closed by `stop()`).
+   * Pass one created in a user gesture where autoplay rules require it.
+   */
+  audioContext?: AudioContextLike;
+  /** Audio sent per `sendAudio()` call, in ms (default 20). */
+  chunkMs?: number;
+  /** Called when sending fails; capture keeps running until `stop()`. */
+  onError?: (error: Error) => void;
+}
+
+/** A running microphone capture, returned by `captureMicrophone()`. */
+export interface MicrophoneCapture {
+  /**
+   * Stop capturing and send the remaining audio. The media tracks are
+   * left running; stop them if the microphone is no longer needed.
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Capture a `MediaStream`'s audio and send it to `stream` as PCM16 16kHz
+ * mono. An `AudioWorklet` downmixes the input; it is resampled and sent
+ * in `chunkMs` packets in order, through `Stream.sendAudio()`.
+ */
+export async function captureMicrophone(
+  stream: Pick<Stream, "sendAudio">,
+  media: MediaStreamLike,
+  options?: CaptureMicrophoneOptions
+): Promise<MicrophoneCapture> {
+  const g = globalThis as BrowserGlobals;
+  if (!g.AudioWorkletNode || !g.Blob || !g.URL || !(options?.audioContext || g.AudioContext)) {
+    throw new STTError("Microphone capture needs a browser with AudioWorklet support");
+  }
+  if (media.getAudioTracks().length === 0) {
+    throw new STTError("MediaStream has no audio track");
+  }
+
+  const context = options?.audioContext ?? new g.AudioContext!();
+  const ownsContext = !options?.audioContext;
+  const moduleUrl = g.URL.createObjectURL(
+    new g.Blob([WORKLET_SOURCE], { type: "application/javascript" })
+  );
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } finally {
+    g.URL.revokeObjectURL(moduleUrl);
+  }
+
+  const chunkMs = options?.chunkMs ?? 20;
+  const chunkBytes = Math.max(
+    SAMPLE_WIDTH,
+    Math.round((BYTES_PER_SECOND * chunkMs) / 1000 / SAMPLE_WIDTH) * SAMPLE_WIDTH
+  );
+  const resampler =
+    context.sampleRate === SAMPLE_RATE
+      ? null
+      : new StreamResampler(context.sampleRate, SAMPLE_RATE);
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  // Chained so packets are sent in capture order
+  let sending: Promise<void> = Promise.resolve();
+
+  const send = (pcm: Uint8Array) => {
+    sending = sending
+      .then(() => stream.sendAudio(pcm))
+      .catch((e: unknown) => {
+        options?.onError?.(e instanceof Error ? e : new STTError(String(e)));
+      });
+  };
+  const push = (samples: Float32Array, final: boolean) => {
+    const pcm = floatToPcm16(samples);
+    if (pcm.length > 0) {
+      pending.push(pcm);
+      pendingBytes += pcm.length;
+    }
+    if (pendingBytes >= chunkBytes || (final && pendingBytes > 0)) {
+      send(concatBytes(pending));
+      pending = [];
+      pendingBytes = 0;
+    }
+  };
+
+  const source = context.createMediaStreamSource(media);
+  const node = new g.AudioWorkletNode(context, PROCESSOR_NAME, { numberOfOutputs: 0 });
+  node.port.onmessage = (event) => {
+    push(resampler ? resampler.process(event.data) : event.data, false);
+  };
+  source.connect(node);
+
+  let stopped = false;
+  return {
+    async stop() {
+      if (stopped) return;
+      stopped = true;
+      source.disconnect();
+      node.port.onmessage = null;
+      node.port.close();
+      push(resampler ? resampler.flush() : new Float32Array(0), true);
+      await sending;
+      if (ownsContext) await context.close();
+    },
+  };
+}
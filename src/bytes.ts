@@ -0,0 +1,40 @@
+/** Audio bytes as accepted by the public API. Node `Buffer`s are `Uint8Array`s. */
+export type AudioData = Uint8Array | ArrayBuffer;
+
+export const EMPTY_BYTES: Uint8Array = new Uint8Array(0);
+
+/** View `data` as a `Uint8Array` without copying. */
+export function toBytes(data: AudioData | ArrayBufferView): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+}
+
+/** Copy `bytes` into a new array, detached from the caller's buffer. */
+export function copyBytes(bytes: Uint8Array): Uint8Array {
+  return new Uint8Array(bytes);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  let length = 0;
+  for (const c of chunks) length += c.length;
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+export function dataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/** Decode `bytes[start, end)` as ASCII, e.g. a RIFF chunk id. */
+export function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
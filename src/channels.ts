@@ -0,0 +1,101 @@
+import { decodeWavChannels, wavInput } from "./audio.js";
+import type { AudioData } from "./bytes.js";
+import type { SessionOptions } from "./client.js";
+import { STTError } from "./errors.js";
+import type { Language } from "./languages.js";
+import type { SharedBudget } from "./ledger.js";
+import type { Logger } from "./logger.js";
+import type { Stream, StreamAudioOptions } from "./stream.js";
+import type { Transcription } from "./types.js";
+import type { VadOptions } from "./vad.js";
+
+export interface TranscribeChannelsOptions extends StreamAudioOptions {
+  /** Speaker label per channel, in channel order, e.g. `["agent", "customer"]`. */
+  labels?: string[];
+  language?: Language;
+  /** Minutes bought per auto-extension (default 5). */
+  extendMinutes?: number;
+  /** Maximum USD for all channels together. */
+  maxSpendUsd?: number;
+  /** Maximum minutes for all channels together. */
+  maxTotalMinutes?: number;
+  /** Drop silence client-side before sending (see `SessionOptions.vad`). */
+  vad?: boolean | VadOptions;
+}
+
+/** @internal The parts of `STTClient` channel transcription uses. */
+export interface ChannelClient {
+  readonly _logger: Logger;
+  _openSession(options: SessionOptions, budget: SharedBudget): Promise<Stream>;
+}
+
+/**
+ * @internal Transcribe each channel of a WAV file on its own session, all
+ * at once, and merge the final results into one timeline ordered by
+ * `start`. Equal starts keep channel order.
+ */
+export async function transcribeChannels(
+  client: ChannelClient,
+  file: string | AudioData,
+  options?: TranscribeChannelsOptions
+): Promise<Transcription[]> {
+  // Decode before paying so a bad file costs nothing
+  const bytes = wavInput(file);
+  const channels = decodeWavChannels(bytes);
+  const labels = options?.labels;
+  if (labels && labels.length !== channels.length) {
+    throw new STTError(
+      `Got ${labels.length} labels for a file with ${channels.length} channels`
+    );
+  }
+
+  const budget: SharedBudget = {
+    limits: {
+      maxSpendUsd: options?.maxSpendUsd,
+      maxTotalMinutes: options?.maxTotalMinutes,
+    },
+    sessionIds: new Set(),
+  };
+  const streams: Stream[] = [];
+  try {
+    // Bought one at a time so the shared limit sees each purchase
+    for (let c = 0; c < channels.length; c++) {
+      streams.push(
+        await client._openSession(
+          {
+            minutes: "auto",
+            forFile: bytes,
+            language: options?.language,
+            extendMinutes: options?.extendMinutes,
+            vad: options?.vad,
+          },
+          budget
+        )
+      );
+    }
+    client._logger.info("Transcribing channels", {
+      ...(typeof file === "string" ? { path: file } : {}),
+      channels: channels.length,
+      sessionIds: streams.map((s) => s.sessionId),
+    });
+
+    const perChannel = await Promise.all(
+      streams.map(async (stream, channel) => {
+        const results: Transcription[] = [];
+        for await (const t of stream._transcribePcm(channels[channel], options)) {
+          if (!t.isFinal) continue;
+          const labelled: Transcription = { ...t, channel };
+          if (labels) labelled.speaker = labels[channel];
+          results.push(labelled);
+        }
+        return results;
+      })
+    );
+    // Array.prototype.sort is stable, so equal starts stay in channel order
+    return perChannel
+      .flat()
+      .sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+  } finally {
+    await Promise.all(streams.map((s) => s.close()));
+  }
+}
@@ -0,0 +1,295 @@
+#!/usr/bin/env node
+/**
+ * dtelecom-stt — command-line interface for dTelecom STT.
+ *
+ * Usage:
+ *   dtelecom-stt transcribe <file.wav> [--language en] [--minutes 5] [--format txt]
+ *   dtelecom-stt stream [--language en] [--sample-rate 16000] [--encoding pcm16]
+ *   dtelecom-stt pricing
+ *   dtelecom-stt health
+ *
+ * The wallet key is read from DTELECOM_PRIVATE_KEY, or from the file named
+ * by --key-file or DTELECOM_KEY_FILE, for the paid commands only.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+import { measureWav } from "./audio.js";
+import type { AudioEncoding } from "./audio.js";
+import { STTClient } from "./client.js";
+import {
+  AudioFormatError,
+  ConnectionError,
+  PaymentError,
+  SessionExpiredError,
+} from "./errors.js";
+import { readAudioFile } from "./file.js";
+import { LANGUAGES, isLanguage } from "./languages.js";
+import type { Language } from "./languages.js";
+import type { Logger } from "./logger.js";
+import { TranscriptBuilder } from "./transcript.js";
+import type { TranscriptFormat } from "./transcript.js";
+
+/** Process exit codes. */
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_PAYMENT = 3;
+export const EXIT_CONNECTION = 4;
+export const EXIT_AUDIO_FORMAT = 5;
+export const EXIT_SESSION_EXPIRED = 6;
+
+const FORMATS: TranscriptFormat[] = ["srt", "vtt", "json", "txt"];
+const ENCODINGS: AudioEncoding[] = ["pcm16", "mulaw", "alaw"];
+
+const USAGE = `Usage: dtelecom-stt <command> [options]
+
+Commands:
+  transcribe <file>   Transcribe a WAV file
+  stream              Transcribe raw audio from stdin
+  pricing             Show pricing
+  health              Check server health
+
+Options:
+  --language <code>     Language (default: en)
+  --minutes <n>         Minutes to buy (default: transcribe sizes to the file, stream 5)
+  --format <fmt>        srt | vtt | json | txt (default: txt)
+  --output <path>       Write the transcript to a file instead of stdout
+  --sample-rate <hz>    stream: input sample rate (default: 16000, 8000 for G.711)
+  --encoding <enc>      stream: pcm16 | mulaw | alaw (default: pcm16)
+  --key-file <path>     Read the private key from a file
+  --url <url>           Server URL
+  --verbose             Log SDK activity to stderr
+  --help                Show this help
+
+Environment:
+  DTELECOM_PRIVATE_KEY  Wallet private key (EVM hex or Solana base58)
+  DTELECOM_KEY_FILE     File containing the private key
+
+Exit codes: 0 ok, 1 error, 2 usage, 3 payment, 4 connection,
+            5 audio format, 6 session expired
+`;
+
+class UsageError extends Error {}
+
+/** Logger that writes every level to stderr, keeping stdout for results. */
+const stderrLogger: Logger = {
+  debug: (message, fields) => console.error(message, ...(fields ? [fields] : [])),
+  info: (message, fields) => console.error(message, ...(fields ? [fields] : [])),
+  warn: (message, fields) => console.error(message, ...(fields ? [fields] : [])),
+  error: (message, fields) => console.error(message, ...(fields ? [fields] : [])),
+};
+
+type Flags = {
+  language?: string;
+  minutes?: string;
+  format?: string;
+  output?: string;
+  "sample-rate"?: string;
+  encoding?: string;
+  "key-file"?: string;
+  url?: string;
+  verbose?: boolean;
+  help?: boolean;
+};
+
+/** Map an error to the CLI exit code. */
+export function exitCodeFor(e: unknown): number {
+  if (e instanceof UsageError) return EXIT_USAGE;
+  if (e instanceof PaymentError) return EXIT_PAYMENT;
+  if (e instanceof ConnectionError) return EXIT_CONNECTION;
+  if (e instanceof AudioFormatError) return EXIT_AUDIO_FORMAT;
+  if (e instanceof SessionExpiredError) return EXIT_SESSION_EXPIRED;
+  return EXIT_ERROR;
+}
+
+function readKey(flags: Flags): string {
+  const keyFile = flags["key-file"] ?? process.env.DTELECOM_KEY_FILE;
+  if (keyFile) {
+    try {
+      return readFileSync(keyFile, "utf8").trim();
+    } catch {
+      throw new UsageError(`Cannot read key file: ${keyFile}`);
+    }
+  }
+  const key = process.env.DTELECOM_PRIVATE_KEY;
+  if (!key) {
+    throw new UsageError("Set DTELECOM_PRIVATE_KEY or pass --key-file");
+  }
+  return key.trim();
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new UsageError(`--${name} must be a positive number`);
+  }
+  return n;
+}
+
+function parseLanguage(value: string | undefined): Language {
+  const language = value ?? "en";
+  if (!isLanguage(language)) {
+    throw new UsageError(`--language must be one of: ${LANGUAGES.join(", ")}`);
+  }
+  return language;
+}
+
+function parseFormat(value: string | undefined): TranscriptFormat {
+  const format = (value ?? "txt") as TranscriptFormat;
+  if (!FORMATS.includes(format)) {
+    throw new UsageError(`--format must be one of: ${FORMATS.join(", ")}`);
+  }
+  return format;
+}
+
+async function createClient(flags: Flags, paid: boolean): Promise<STTClient> {
+  // Pricing and health are not paid, so they need no key
+  return STTClient.create({
+    privateKey: paid ? readKey(flags) : undefined,
+    url: flags.url,
+    logger: flags.verbose ? stderrLogger : undefined,
+  });
+}
+
+function writeOutput(text: string, output?: string): void {
+  if (output) {
+    writeFileSync(output, text);
+  } else {
+    process.stdout.write(text);
+  }
+}
+
+async function transcribe(file: string | undefined, flags: Flags): Promise<void> {
+  if (!file) throw new UsageError("transcribe requires a file argument");
+  const format = parseFormat(flags.format);
+  const language = parseLanguage(flags.language);
+  const minutes = parseNumber(flags.minutes, "minutes");
+  // Read once, and fail on unreadable audio before paying for a session
+  const audio = readAudioFile(file);
+  measureWav(audio);
+
+  const client = await createClient(flags, true);
+  const stream = await client
+    .session({ minutes: minutes ?? "auto", forFile: audio, language })
+    .open();
+  try {
+    const transcript = await TranscriptBuilder.collect(stream.transcribeFile(audio));
+    writeOutput(transcript.format(format), flags.output);
+  } finally {
+    await stream.close();
+  }
+}
+
+async function streamStdin(flags: Flags): Promise<void> {
+  const format = parseFormat(flags.format);
+  const language = parseLanguage(flags.language);
+  const minutes = parseNumber(flags.minutes, "minutes");
+  const sampleRate = parseNumber(flags["sample-rate"], "sample-rate");
+  const encoding = (flags.encoding ?? "pcm16") as AudioEncoding;
+  if (!ENCODINGS.includes(encoding)) {
+    throw new UsageError(`--encoding must be one of: ${ENCODINGS.join(", ")}`);
+  }
+
+  const client = await createClient(flags, true);
+  const stream = await client
+    .session({ minutes, language })
+    .open();
+  const transcript = new TranscriptBuilder();
+  try {
+    for await (const t of stream.transcribeSource(process.stdin, {
+      raw: { encoding, sampleRate },
+    })) {
+      transcript.add(t);
+      // Plain text is printed live; other formats once input ends
+      if (format === "txt" && t.isFinal && t.text.trim()) {
+        console.log(t.text.trim());
+      }
+    }
+  } finally {
+    await stream.close();
+  }
+  if (format !== "txt" || flags.output) {
+    writeOutput(transcript.format(format), flags.output);
+  }
+}
+
+async function pricing(flags: Flags): Promise<void> {
+  const client = await createClient(flags, false);
+  const info = await client.pricing();
+  console.log(JSON.stringify(info, null, 2));
+}
+
+async function health(flags: Flags): Promise<void> {
+  const client = await createClient(flags, false);
+  const status = await client.health();
+  console.log(JSON.stringify(status, null, 2));
+}
+
+/** Run the CLI with the given arguments; resolves to the exit code. */
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const { values, positionals } = parseCommandLine(argv);
+    const flags = values as Flags;
+    const [command, ...rest] = positionals;
+
+    if (flags.help || !command) {
+      process.stdout.write(USAGE);
+      return command || flags.help ? EXIT_OK : EXIT_USAGE;
+    }
+
+    switch (command) {
+      case "transcribe":
+        await transcribe(rest[0], flags);
+        break;
+      case "stream":
+        await streamStdin(flags);
+        break;
+      case "pricing":
+        await pricing(flags);
+        break;
+      case "health":
+        await health(flags);
+        break;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+    return EXIT_OK;
+  } catch (e: unknown) {
+    const code = exitCodeFor(e);
+    console.error(`Error: ${e instanceof Error ? e.message : e}`);
+    if (code === EXIT_USAGE) console.error("Run with --help for usage.");
+    return code;
+  }
+}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        language: { type: "string" },
+        minutes: { type: "string" },
+        format: { type: "string" },
+        output: { type: "string", short: "o" },
+        "sample-rate": { type: "string" },
+        encoding: { type: "string" },
+        "key-file": { type: "string" },
+        url: { type: "string" },
+        verbose: { type: "boolean", short: "v" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (e: unknown) {
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -1,122 +1,237 @@
-import { x402Client, wrapFetchWithPayment } from "@x402/fetch";
-import { registerExactEvmScheme } from "@x402/evm/exact/client";
-import { registerExactSvmScheme } from "@x402/svm/exact/client";
-import { privateKeyToAccount } from "viem/accounts";
-import { createKeyPairSignerFromBytes } from "@solana/kit";
+import { wrapFetchWithPayment } from "@x402/fetch";
 
-import { ConnectionError, PaymentError, STTError } from "./errors.js";
-import { Stream } from "./stream.js";
-import type { PricingInfo, SessionInfo } from "./types.js";
+import { measureWav, wavInput } from "./audio.js";
+import { Batch } from "./batch.js";
+import type { AudioData } from "./bytes.js";
+import type { BatchOptions } from "./batch.js";
+import type { VadOptions } from "./vad.js";
+import { transcribeChannels } from "./channels.js";
+import type { TranscribeChannelsOptions } from "./channels.js";
+import {
+  AbortError,
+  ConnectionError,
+  PaymentError,
+  SessionExpiredError,
+  STTError,
+} from "./errors.js";
+import { fetchWithRetry, retryPolicy, throwIfAborted } from "./http.js";
+import type { RequestOptions, RetryOptions, RetryPolicy } from "./http.js";
+import { PaymentLedger, checkLimits, hasLimits } from "./ledger.js";
+import type { SharedBudget, SpendingLimits } from "./ledger.js";
+import { noopLogger } from "./logger.js";
+import type { Logger } from "./logger.js";
+import { Stream, TRAILING_SILENCE_SECONDS } from "./stream.js";
+import type { ReconnectOptions } from "./stream.js";
+import type { SessionStore } from "./store.js";
+import { checkLanguage } from "./languages.js";
+import type { Language } from "./languages.js";
+import { defaultWebSocket } from "./transport.js";
+import type { WebSocketFactory } from "./transport.js";
+import {
+  checkPayment,
+  isEvmKey,
+  keySigner,
+  paymentClient,
+  paymentReceipt,
+  solanaKeySigner,
+} from "./wallet.js";
+import type { PaymentOptions, PaymentSigner } from "./wallet.js";
+import type {
+  CostEstimate,
+  ExtendResult,
+  PaymentReceipt,
+  PricingInfo,
+  SessionHandle,
+  SessionInfo,
+  Transcription,
+} from "./types.js";
 
 const DEFAULT_URL = "https://x402stt.dtelecom.org";
+/** Stored sessions with less time left are not worth resuming. */
+const MIN_RESUME_SECONDS = 30;
 
 export interface STTClientOptions {
-  privateKey: string;
+  /**
+   * EVM (hex) or Solana (base58 keypair) private key. Give this or `signer`
+   * to buy sessions; without either, only unpaid calls such as `pricing()`
+   * and `health()` work.
+   */
+  privateKey?: string;
+  /**
+   * Pays without the SDK holding a raw key: a viem `LocalAccount` or other
+   * EVM signer, a Solana `TransactionSigner`, or a configured `x402Client`.
+   */
+  signer?: PaymentSigner;
+  /** Allowed networks, network preference, price cap and further signers. */
+  payment?: PaymentOptions;
   url?: string;
+  /** Receives SDK log output (default: discard). */
+  logger?: Logger;
+  /** Maximum USD this client may spend across all sessions. */
+  maxSpendUsd?: number;
+  /** Maximum minutes this client may buy across all sessions. */
+  maxTotalMinutes?: number;
+  /**
+   * Opens stream sockets (default: the global `WebSocket` if the runtime
+   * has one, else the `ws` package).
+   */
+  webSocket?: WebSocketFactory;
+  /**
+   * Keeps every session this client opens, so `open()` resumes one with
+   * time left (and the same language) before buying a new one, including
+   * after a restart with a persistent store.
+   */
+  sessionStore?: SessionStore;
+  /** Retries, backoff and timeouts of HTTP requests to the server. */
+  retry?: RetryOptions;
 }
 
 export interface SessionOptions {
-  minutes?: number;
-  language?: string;
+  /**
+   * Minutes to buy (default 5), or `"auto"` to size the session to the
+   * WAV file given as `forFile`.
+   */
+  minutes?: number | "auto";
+  /**
+   * WAV file to size the session for when `minutes` is `"auto"`: a path
+   * (Node only) or the file's bytes.
+   */
+  forFile?: string | AudioData;
+  /** Language spoken (default `"en"`); unsupported codes throw before anything is paid. */
+  language?: Language;
   autoExtend?: boolean;
-}
-
-/** Check if a key looks like an EVM private key (32-byte hex, optional 0x). */
-function isEvmKey(key: string): boolean {
-  const k = key.startsWith("0x") ? key.slice(2) : key;
-  return /^[0-9a-fA-F]{64}$/.test(k);
-}
-
-/** Decode a base58 string to bytes. */
-function decodeBase58(str: string): Uint8Array {
-  const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
-  const bytes: number[] = [];
-  for (const ch of str) {
-    const idx = ALPHABET.indexOf(ch);
-    if (idx < 0) throw new Error(`Invalid base58 character: ${ch}`);
-    let carry = idx;
-    for (let j = 0; j < bytes.length; j++) {
-      carry += bytes[j] * 58;
-      bytes[j] = carry & 0xff;
-      carry >>= 8;
-    }
-    while (carry > 0) {
-      bytes.push(carry & 0xff);
-      carry >>= 8;
-    }
-  }
-  // leading zeros
-  for (const ch of str) {
-    if (ch !== "1") break;
-    bytes.push(0);
-  }
-  return new Uint8Array(bytes.reverse());
+  /** Reconnect and resume the session when the socket drops (default true). */
+  reconnect?: boolean;
+  /** Reconnect attempts before giving up (default 5). */
+  maxReconnectAttempts?: number;
+  /** Base reconnect backoff in ms, doubled per attempt (default 500). */
+  reconnectDelayMs?: number;
+  /** Seconds of audio buffered for replay while reconnecting (default 10). */
+  reconnectBufferSeconds?: number;
+  /** Minutes bought per auto-extension (default 5). */
+  extendMinutes?: number;
+  /** Maximum USD this session may spend, including extensions. */
+  maxSpendUsd?: number;
+  /** Maximum minutes this session may buy, including extensions. */
+  maxTotalMinutes?: number;
+  /**
+   * Drop silence client-side before sending, so it is not paid for
+   * (default off). Timestamps are mapped back to the original audio.
+   */
+  vad?: boolean | VadOptions;
+  /**
+   * Sends wait while more than this many bytes are queued on the socket
+   * (default 1 MiB).
+   */
+  highWaterMarkBytes?: number;
+  /**
+   * Cancels `open()` and, once the stream is open, closes it. Either way
+   * the pending calls reject with `AbortError`.
+   */
+  signal?: AbortSignal;
 }
 
 /**
  * Client for dTelecom real-time speech-to-text with x402 micropayments.
  *
  * Accepts either an EVM private key (hex, 0x-prefixed) or a Solana private
- * key (base58-encoded keypair).  The wallet type is detected automatically.
+ * key (base58-encoded keypair), or instead a `signer` that holds the key
+ * elsewhere. The wallet type is detected automatically. Without either,
+ * only the unpaid calls (`pricing()`, `estimateCost()`, `health()`) work.
  *
  * For Solana keys, use the async factory `STTClient.create()`.
- * For EVM keys, both `new STTClient()` and `STTClient.create()` work.
+ * For EVM keys and signers, both `new STTClient()` and `STTClient.create()` work.
  */
 export class STTClient {
   /** @internal */ readonly _url: string;
   /** @internal */ readonly _wsUrl: string;
-  /** @internal */ _fetchWithPayment: typeof fetch;
+  /** @internal Null without a key or signer, when only unpaid calls work. */
+  _fetchWithPayment: typeof fetch | null;
+  /** @internal */ readonly _logger: Logger;
+  /** @internal */ readonly _limits: SpendingLimits;
+  /** @internal */ readonly _webSocket: WebSocketFactory;
+  /** @internal */ readonly _payment: PaymentOptions;
+  /** @internal */ readonly _sessionStore: SessionStore | null;
+  /** @internal */ readonly _retry: RetryPolicy;
+  /** @internal Sessions with a stream open in this process. */
+  readonly _activeSessions = new Set<string>();
+  /**
+   * Serializes purchases under a spending limit, from the budget check to
+   * the ledger record, so two purchases cannot both pass the check.
+   */
+  private _purchasing: Promise<unknown> = Promise.resolve();
+
+  /** Every payment made by this client. */
+  readonly ledger = new PaymentLedger();
 
   /**
-   * Sync constructor — works for EVM keys only.
+   * Sync constructor — works for EVM keys and signers.
    * For Solana keys, use `STTClient.create()`.
    */
-  constructor(options: STTClientOptions) {
+  constructor(options: STTClientOptions = {}) {
     this._url = (options.url ?? DEFAULT_URL).replace(/\/+$/, "");
+    this._logger = options.logger ?? noopLogger;
+    this._limits = {
+      maxSpendUsd: options.maxSpendUsd,
+      maxTotalMinutes: options.maxTotalMinutes,
+    };
     this._wsUrl = this._url
       .replace("https://", "wss://")
       .replace("http://", "ws://");
+    this._webSocket = options.webSocket ?? defaultWebSocket;
+    this._sessionStore = options.sessionStore ?? null;
+    this._retry = retryPolicy(options.retry);
 
-    if (isEvmKey(options.privateKey)) {
-      const signer = privateKeyToAccount(
-        (options.privateKey.startsWith("0x")
-          ? options.privateKey
-          : `0x${options.privateKey}`) as `0x${string}`
-      );
-      const client = new x402Client();
-      registerExactEvmScheme(client, { signer });
-      this._fetchWithPayment = wrapFetchWithPayment(fetch, client);
-    } else {
+    this._payment = options.payment ?? {};
+
+    const signers: (string | PaymentSigner)[] = [];
+    if (options.privateKey) signers.push(options.privateKey);
+    if (options.signer) signers.push(options.signer);
+    signers.push(...(this._payment.signers ?? []));
+
+    if (signers.length === 0) {
+      this._fetchWithPayment = null;
+    } else if (signers.some((s) => typeof s === "string" && !isEvmKey(s))) {
       // Solana key — defer setup to async create()
       this._fetchWithPayment = fetch; // placeholder
-      this._pendingKey = options.privateKey;
+      this._pendingSigners = signers;
+    } else {
+      const resolved = signers.map((s) => (typeof s === "string" ? keySigner(s)! : s));
+      this._fetchWithPayment = wrapFetchWithPayment(fetch, paymentClient(resolved, this._payment));
     }
   }
 
-  /** @internal */ private _pendingKey?: string;
+  /** @internal */ private _pendingSigners?: (string | PaymentSigner)[];
 
   /** @internal */
-  private async _initSolana(key: string): Promise<void> {
-    const keyBytes = decodeBase58(key);
-    const signer = await createKeyPairSignerFromBytes(keyBytes);
-    const client = new x402Client();
-    registerExactSvmScheme(client, { signer });
-    this._fetchWithPayment = wrapFetchWithPayment(fetch, client);
+  private async _initSolana(signers: (string | PaymentSigner)[]): Promise<void> {
+    const resolved = await Promise.all(
+      signers.map((s) => (typeof s === "string" ? keySigner(s) ?? solanaKeySigner(s) : s))
+    );
+    this._fetchWithPayment = wrapFetchWithPayment(fetch, paymentClient(resolved, this._payment));
   }
 
   /**
-   * Async factory — works for both EVM and Solana keys.
+   * Async factory — works for EVM and Solana keys and for signers.
    * Required for Solana keys (Solana signer creation is async).
    */
-  static async create(options: STTClientOptions): Promise<STTClient> {
+  static async create(options: STTClientOptions = {}): Promise<STTClient> {
     const instance = new STTClient(options);
-    if (instance._pendingKey) {
-      await instance._initSolana(instance._pendingKey);
-      instance._pendingKey = undefined;
+    if (instance._pendingSigners) {
+      await instance._initSolana(instance._pendingSigners);
+      instance._pendingSigners = undefined;
     }
     return instance;
   }
 
+  /** The paying `fetch`; throws if the client has no key or signer. */
+  private _paidFetch(): typeof fetch {
+    if (!this._fetchWithPayment) {
+      throw new STTError("privateKey or signer is required to buy sessions");
+    }
+    return this._fetchWithPayment;
+  }
+
   /**
    * Create a session context. Call `.open()` to connect.
    */
@@ -124,18 +239,175 @@ export class STTClient {
     return new SessionContext(this, options);
   }
 
-  /** @internal Buy a session via x402 payment. */
-  async _createSession(minutes: number, language: string): Promise<SessionInfo> {
-    let resp: Response;
-    try {
-      resp = await this._fetchWithPayment(`${this._url}/v1/session`, {
+  /**
+   * Reopen a session exported with `Stream.exportSession()`, without
+   * paying. The stream uses the handle's language and `options` as for
+   * `session()`. Rejects with `SessionExpiredError` if the server no longer
+   * accepts the session key.
+   */
+  resumeSession(
+    handle: SessionHandle,
+    options?: Omit<SessionOptions, "minutes" | "forFile" | "language">
+  ): Promise<Stream> {
+    return new SessionContext(this, { ...options, language: handle.language })._resume(handle);
+  }
+
+  /**
+   * Transcribe many WAV files with at most `concurrency` sessions at once.
+   * Returns immediately; listen for `fileStarted`, `fileCompleted` and
+   * `progress`, and await `results`. Failures are reported per file.
+   */
+  transcribeBatch(files: string[], options?: BatchOptions): Batch {
+    return new Batch(this, files, options);
+  }
+
+  /**
+   * Transcribe each channel of a multi-channel WAV on its own session, in
+   * parallel, and return the final results merged by `start`. Each result
+   * carries its `channel` and, when `labels` are given, its `speaker`.
+   * Takes a path (Node only) or the file's bytes.
+   */
+  transcribeChannels(
+    file: string | AudioData,
+    options?: TranscribeChannelsOptions
+  ): Promise<Transcription[]> {
+    return transcribeChannels(this, file, options);
+  }
+
+  /** @internal Open a session whose payments also count against `budget`. */
+  _openSession(options: SessionOptions, budget?: SharedBudget): Promise<Stream> {
+    return new SessionContext(this, options, budget).open();
+  }
+
+  /** @internal Reopen an exported session whose payments also count against `budget`. */
+  _resumeSession(
+    handle: SessionHandle,
+    options: SessionOptions,
+    budget?: SharedBudget
+  ): Promise<Stream> {
+    return new SessionContext(this, { ...options, language: handle.language }, budget)._resume(
+      handle
+    );
+  }
+
+  /**
+   * @internal Throw `BudgetExhaustedError` if a purchase would exceed the
+   * client limits or the given session limits.
+   */
+  async _checkBudget(
+    minutes: number,
+    sessionId?: string,
+    sessionLimits?: SpendingLimits,
+    budget?: SharedBudget,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const needsUsd =
+      this._limits.maxSpendUsd !== undefined ||
+      sessionLimits?.maxSpendUsd !== undefined ||
+      budget?.limits.maxSpendUsd !== undefined;
+    const estimatedUsd = needsUsd
+      ? minutes * (await this._pricePerMinute(sessionId, signal))
+      : 0;
+
+    checkLimits(
+      this._limits,
+      "client",
+      { usd: this.ledger.totalUsd(), minutes: this.ledger.totalMinutes() },
+      minutes,
+      estimatedUsd
+    );
+    // A new session (no id yet) has spent nothing
+    const sessionSpent =
+      sessionId === undefined
+        ? { usd: 0, minutes: 0 }
+        : {
+            usd: this.ledger.totalUsd(sessionId),
+            minutes: this.ledger.totalMinutes(sessionId),
+          };
+    checkLimits(sessionLimits, "session", sessionSpent, minutes, estimatedUsd);
+
+    if (budget) {
+      const ids = [...budget.sessionIds];
+      const budgetSpent = {
+        usd: ids.reduce((sum, id) => sum + this.ledger.totalUsd(id), 0),
+        minutes: ids.reduce((sum, id) => sum + this.ledger.totalMinutes(id), 0),
+      };
+      checkLimits(budget.limits, "batch", budgetSpent, minutes, estimatedUsd);
+    }
+  }
+
+  /**
+   * Run `purchase` once earlier purchases have been recorded, if any limit
+   * applies to it; unlimited purchases run at once.
+   */
+  private _purchase<T>(
+    limits: SpendingLimits | undefined,
+    budget: SharedBudget | undefined,
+    purchase: () => Promise<T>
+  ): Promise<T> {
+    if (![this._limits, limits, budget?.limits].some(hasLimits)) return purchase();
+    const run = this._purchasing.then(purchase);
+    this._purchasing = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Throw `PaymentError` if the server's network or the price of `minutes`
+   * breaks the payment options, before anything is signed.
+   */
+  private async _checkPayment(minutes: number, signal?: AbortSignal): Promise<void> {
+    if (!this._payment.networks && this._payment.maxPriceUsd === undefined) return;
+    const pricing = await this.pricing({ signal });
+    checkPayment(this._payment, pricing, minutes * pricing.pricePerMinuteUsd);
+  }
+
+  /** Per-minute price paid so far for a session, else the server's price. */
+  private async _pricePerMinute(sessionId?: string, signal?: AbortSignal): Promise<number> {
+    if (sessionId !== undefined) {
+      const minutes = this.ledger.totalMinutes(sessionId);
+      if (minutes > 0) return this.ledger.totalUsd(sessionId) / minutes;
+    }
+    return (await this.pricing({ signal })).pricePerMinuteUsd;
+  }
+
+  /**
+   * @internal Buy a session via x402 payment. Retries reuse one
+   * idempotency key, so the server charges for the session at most once.
+   */
+  async _createSession(
+    minutes: number,
+    language: Language,
+    limits?: SpendingLimits,
+    budget?: SharedBudget,
+    signal?: AbortSignal
+  ): Promise<SessionInfo> {
+    return this._purchase(limits, budget, () =>
+      this._buySession(minutes, language, limits, budget, signal)
+    );
+  }
+
+  private async _buySession(
+    minutes: number,
+    language: Language,
+    limits?: SpendingLimits,
+    budget?: SharedBudget,
+    signal?: AbortSignal
+  ): Promise<SessionInfo> {
+    throwIfAborted(signal);
+    const paidFetch = this._paidFetch();
+    await this._checkBudget(minutes, undefined, limits, budget, signal);
+    await this._checkPayment(minutes, signal);
+
+    const resp = await this._request(
+      paidFetch,
+      "/v1/session",
+      {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "Idempotency-Key": crypto.randomUUID() },
         body: JSON.stringify({ minutes, language }),
-      });
-    } catch (e: unknown) {
-      throw new ConnectionError(`Cannot reach server: ${e}`);
-    }
+      },
+      signal
+    );
 
     if (resp.status === 402) {
       const body = await resp.json().catch(() => ({}));
@@ -151,49 +423,125 @@ export class STTClient {
     }
 
     const data = (await resp.json()) as Record<string, unknown>;
-    return {
-      sessionId: data.session_id as string,
+    const sessionId = data.session_id as string;
+    const amountUsd = Number(data.price_usd) || 0;
+    const info: SessionInfo = {
+      sessionId,
       sessionKey: data.session_key as string,
       wsUrl: (data.ws_url as string) ?? `${this._wsUrl}/v1/stream`,
       remainingSeconds: data.remaining_seconds as number,
       minutes: data.minutes as number,
       priceUsd: data.price_usd as string,
+      receipt: this._receipt(resp, amountUsd, sessionId),
     };
+    this.ledger._record({
+      kind: "session",
+      sessionId: info.sessionId,
+      amountUsd,
+      minutes: info.minutes ?? minutes,
+      timestamp: new Date(),
+      receipt: info.receipt,
+    });
+    budget?.sessionIds.add(info.sessionId);
+    return info;
   }
 
-  /** @internal Extend session with additional paid minutes. */
+  /**
+   * @internal Extend session with additional paid minutes, charged at
+   * most once however often the request is retried.
+   */
   async _extendSession(
     sessionId: string,
-    minutes: number = 5
-  ): Promise<Record<string, unknown>> {
-    let resp: Response;
-    try {
-      resp = await this._fetchWithPayment(`${this._url}/v1/session/extend`, {
+    minutes: number = 5,
+    limits?: SpendingLimits,
+    budget?: SharedBudget,
+    signal?: AbortSignal
+  ): Promise<ExtendResult> {
+    return this._purchase(limits, budget, () =>
+      this._buyExtension(sessionId, minutes, limits, budget, signal)
+    );
+  }
+
+  private async _buyExtension(
+    sessionId: string,
+    minutes: number,
+    limits?: SpendingLimits,
+    budget?: SharedBudget,
+    signal?: AbortSignal
+  ): Promise<ExtendResult> {
+    throwIfAborted(signal);
+    const paidFetch = this._paidFetch();
+    await this._checkBudget(minutes, sessionId, limits, budget, signal);
+    await this._checkPayment(minutes, signal);
+
+    const resp = await this._request(
+      paidFetch,
+      "/v1/session/extend",
+      {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "Idempotency-Key": crypto.randomUUID() },
         body: JSON.stringify({ session_id: sessionId, minutes }),
-      });
-    } catch (e: unknown) {
-      throw new ConnectionError(`Cannot reach server: ${e}`);
-    }
+      },
+      signal
+    );
 
     if (!resp.ok) {
       const text = await resp.text().catch(() => "");
       throw new PaymentError(`Extend failed (${resp.status}): ${text}`);
     }
-    return (await resp.json()) as Record<string, unknown>;
+    const data = (await resp.json()) as Record<string, unknown>;
+    const amountUsd = Number(data.price_usd) || 0;
+    const result: ExtendResult = {
+      sessionId,
+      minutesAdded: (data.minutes_added as number) ?? minutes,
+      remainingSeconds: data.remaining_seconds as number,
+      priceUsd: data.price_usd as string,
+      receipt: this._receipt(resp, amountUsd, sessionId),
+    };
+    this.ledger._record({
+      kind: "extend",
+      sessionId,
+      amountUsd,
+      minutes: result.minutesAdded,
+      timestamp: new Date(),
+      receipt: result.receipt,
+    });
+    return result;
   }
 
-  /** Get pricing information (no payment required). */
-  async pricing(): Promise<PricingInfo> {
-    let resp: Response;
+  /**
+   * Receipt for a paid response. The purchase has already succeeded, so
+   * an unreadable settlement is logged rather than thrown.
+   */
+  private _receipt(resp: Response, amountUsd: number, sessionId: string): PaymentReceipt | null {
     try {
-      resp = await fetch(`${this._url}/pricing`, {
-        signal: AbortSignal.timeout(10_000),
+      const receipt = paymentReceipt(resp, amountUsd);
+      if (receipt) {
+        this._logger.debug("Payment settled", { sessionId, ...receipt });
+      }
+      return receipt;
+    } catch (e) {
+      this._logger.warn("Cannot read payment response", {
+        sessionId,
+        error: e instanceof Error ? e.message : String(e),
       });
-    } catch (e: unknown) {
-      throw new ConnectionError(`Cannot reach server: ${e}`);
+      return null;
     }
+  }
+
+  /** Send a request to the server with the client's retry policy. */
+  private _request(
+    fetchFn: typeof fetch,
+    path: string,
+    init: RequestInit,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return fetchWithRetry(fetchFn, `${this._url}${path}`, init, this._retry, this._logger, signal);
+  }
+
+  /** Get pricing information (no payment required). */
+  async pricing(options?: RequestOptions): Promise<PricingInfo> {
+    const resp = await this._request(fetch, "/pricing", {}, options?.signal);
 
     if (!resp.ok) {
       throw new STTError(`Pricing request failed (${resp.status})`);
@@ -212,16 +560,36 @@ export class STTClient {
     };
   }
 
-  /** Check server health (no payment required). */
-  async health(): Promise<Record<string, unknown>> {
-    let resp: Response;
-    try {
-      resp = await fetch(`${this._url}/health`, {
-        signal: AbortSignal.timeout(10_000),
-      });
-    } catch (e: unknown) {
-      throw new ConnectionError(`Cannot reach server: ${e}`);
+  /**
+   * Estimate what transcribing `durationSeconds` of audio costs. Minutes
+   * are rounded up and clamped to the server's limits; audio longer than
+   * `maxMinutes` needs extensions on top of the first purchase.
+   */
+  async estimateCost(durationSeconds: number, options?: RequestOptions): Promise<CostEstimate> {
+    if (!Number.isFinite(durationSeconds) || durationSeconds < 0) {
+      throw new STTError(`Invalid duration: ${durationSeconds}`);
     }
+    const pricing = await this.pricing(options);
+    const requiredMinutes = Math.max(1, Math.ceil(durationSeconds / 60));
+    const minutes = Math.min(
+      Math.max(requiredMinutes, pricing.minMinutes),
+      pricing.maxMinutes
+    );
+    const totalMinutes = Math.max(requiredMinutes, pricing.minMinutes);
+    return {
+      durationSeconds,
+      requiredMinutes,
+      minutes,
+      priceUsd: minutes * pricing.pricePerMinuteUsd,
+      totalPriceUsd: totalMinutes * pricing.pricePerMinuteUsd,
+      pricePerMinuteUsd: pricing.pricePerMinuteUsd,
+      needsExtension: requiredMinutes > pricing.maxMinutes,
+    };
+  }
+
+  /** Check server health (no payment required). */
+  async health(options?: RequestOptions): Promise<Record<string, unknown>> {
+    const resp = await this._request(fetch, "/health", {}, options?.signal);
     return (await resp.json()) as Record<string, unknown>;
   }
 }
@@ -232,36 +600,226 @@ export class STTClient {
  */
 export class SessionContext {
   private _client: STTClient;
-  private _minutes: number;
-  private _language: string;
+  private _minutes: number | "auto";
+  private _forFile?: string | AudioData;
+  private _language: Language;
   private _autoExtend: boolean;
+  private _reconnect: ReconnectOptions;
+  private _extendMinutes: number;
+  private _limits: SpendingLimits;
+  private _budget?: SharedBudget;
+  private _vad: VadOptions | null;
+  private _highWaterMark: number;
+  private _signal?: AbortSignal;
 
-  constructor(client: STTClient, options?: SessionOptions) {
+  /** @internal `budget` adds limits shared with other sessions. */
+  constructor(client: STTClient, options?: SessionOptions, budget?: SharedBudget) {
     this._client = client;
+    this._budget = budget;
     this._minutes = options?.minutes ?? 5;
-    this._language = options?.language ?? "en";
+    this._forFile = options?.forFile;
+    if (this._minutes === "auto" && !this._forFile) {
+      throw new STTError('minutes: "auto" requires forFile');
+    }
+    this._language = checkLanguage(options?.language ?? "en");
     this._autoExtend = options?.autoExtend ?? true;
+    this._reconnect = {
+      enabled: options?.reconnect ?? true,
+      maxAttempts: options?.maxReconnectAttempts ?? 5,
+      delayMs: options?.reconnectDelayMs ?? 500,
+      bufferSeconds: options?.reconnectBufferSeconds ?? 10,
+    };
+    this._extendMinutes = options?.extendMinutes ?? 5;
+    this._limits = {
+      maxSpendUsd: options?.maxSpendUsd,
+      maxTotalMinutes: options?.maxTotalMinutes,
+    };
+    const vad = options?.vad ?? false;
+    this._vad = vad === true ? {} : vad || null;
+    this._highWaterMark = options?.highWaterMarkBytes ?? 1024 * 1024;
+    this._signal = options?.signal;
   }
 
-  /** Create the paid session and open a WebSocket stream. */
-  async open(): Promise<Stream> {
+  /**
+   * Create the paid session and open a WebSocket stream. With a
+   * `sessionStore`, a stored session with enough time left is resumed
+   * instead of buying one. Aborting `signal` cancels opening, closing the
+   * socket if there is one, and rejects with `AbortError`.
+   */
+  async open(options?: RequestOptions): Promise<Stream> {
+    const signals = [this._signal, options?.signal].filter((s) => s !== undefined);
+    const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+
+    const sizing =
+      this._minutes === "auto" ? await this._autoSize(this._forFile!, signal) : null;
+    const minutes = sizing?.minutes ?? (this._minutes as number);
+    const store = this._client._sessionStore;
+    if (store) {
+      const stream = await this._resumeStored(store, minutes, signal);
+      if (stream) {
+        stream._sizing = sizing;
+        return stream;
+      }
+    }
+
     const info = await this._client._createSession(
-      this._minutes,
-      this._language
-    );
-    console.log(
-      `Session created: id=${info.sessionId.slice(0, 8)}, ${info.remainingSeconds}s remaining, $${info.priceUsd}`
+      minutes,
+      this._language,
+      this._limits,
+      this._budget,
+      signal
     );
+    this._client._logger.info("Session created", {
+      sessionId: info.sessionId,
+      remainingSeconds: info.remainingSeconds,
+      priceUsd: info.priceUsd,
+    });
+    const stream = await this._openStream(info, signal);
+    stream._sizing = sizing;
+    return stream;
+  }
+
+  /** @internal Reopen an exported session without paying. */
+  async _resume(handle: SessionHandle, signal = this._signal): Promise<Stream> {
+    if (this._client._activeSessions.has(handle.sessionId)) {
+      throw new STTError(`Session ${handle.sessionId} is already open`);
+    }
+    const info: SessionInfo = {
+      sessionId: handle.sessionId,
+      sessionKey: handle.sessionKey,
+      wsUrl: `${this._client._wsUrl}/v1/stream`,
+      remainingSeconds: handle.remainingSeconds,
+      // Nothing is bought to resume
+      minutes: 0,
+      priceUsd: "0",
+      receipt: null,
+    };
+    let stream: Stream;
+    try {
+      stream = await this._openStream(info, signal);
+    } catch (e) {
+      if (e instanceof ConnectionError || e instanceof AbortError) throw e;
+      const detail = e instanceof Error ? e.message : String(e);
+      throw new SessionExpiredError(`Cannot resume session ${handle.sessionId}: ${detail}`);
+    }
+    this._budget?.sessionIds.add(info.sessionId);
+    this._client._logger.info("Session resumed", {
+      sessionId: info.sessionId,
+      remainingSeconds: handle.remainingSeconds,
+    });
+    return stream;
+  }
 
-    const wsUrl = `${this._client._wsUrl}/v1/stream`;
+  /**
+   * Resume the first stored session in this language with time for
+   * `minutes` (or a little, if it will auto-extend); null if none has.
+   * Sessions the server refuses are removed from the store.
+   */
+  private async _resumeStored(
+    store: SessionStore,
+    minutes: number,
+    signal?: AbortSignal
+  ): Promise<Stream | null> {
+    const needed = this._autoExtend ? MIN_RESUME_SECONDS : minutes * 60;
+    for (const handle of await store.list()) {
+      if (
+        handle.language !== this._language ||
+        handle.remainingSeconds < needed ||
+        this._client._activeSessions.has(handle.sessionId)
+      ) {
+        continue;
+      }
+      try {
+        return await this._resume(handle, signal);
+      } catch (e) {
+        if (!(e instanceof SessionExpiredError)) throw e;
+        this._client._logger.warn("Dropping stored session", {
+          sessionId: handle.sessionId,
+          message: e.message,
+        });
+        await store.remove(handle.sessionId);
+      }
+    }
+    return null;
+  }
+
+  /** Connect a stream to a session, saving it to the store while it runs. */
+  private async _openStream(info: SessionInfo, signal?: AbortSignal): Promise<Stream> {
+    const active = this._client._activeSessions;
+    // Claimed before connecting so concurrent opens skip it
+    active.add(info.sessionId);
     const stream = new Stream({
-      wsUrl,
+      wsUrl: `${this._client._wsUrl}/v1/stream`,
+      webSocket: this._client._webSocket,
       sessionInfo: info,
       client: this._client,
       language: this._language,
       autoExtend: this._autoExtend,
+      extendMinutes: this._extendMinutes,
+      limits: this._limits,
+      budget: this._budget,
+      reconnect: this._reconnect,
+      vad: this._vad,
+      highWaterMarkBytes: this._highWaterMark,
+      logger: this._client._logger,
     });
-    await stream._connect();
+    try {
+      await stream._connect(signal);
+    } catch (e) {
+      active.delete(info.sessionId);
+      throw e;
+    }
+    if (this._signal) stream._closeOn(this._signal);
+    stream.on("closed", () => active.delete(info.sessionId));
+    const store = this._client._sessionStore;
+    if (store) this._persist(stream, store);
     return stream;
   }
+
+  /**
+   * Keep the store's copy of a stream's session current: saved now, after
+   * each extension and on close, and removed once no time is left.
+   */
+  private _persist(stream: Stream, store: SessionStore): void {
+    const logger = this._client._logger;
+    // Chained so an earlier save never lands after a later update
+    let last = Promise.resolve();
+    const update = (write: () => Promise<void>) => {
+      last = last.then(write).catch((e: unknown) => {
+        logger.warn("Cannot update session store", {
+          sessionId: stream.sessionId,
+          error: e instanceof Error ? e.message : String(e),
+        });
+      });
+    };
+    const save = () => update(() => store.save(stream.exportSession()));
+
+    save();
+    stream.on("extended", save);
+    stream.on("closed", () => {
+      const handle = stream.exportSession();
+      update(() =>
+        handle.remainingSeconds > 0 ? store.save(handle) : store.remove(handle.sessionId)
+      );
+    });
+  }
+
+  /** Minutes covering a file plus the trailing silence sent after it. */
+  private async _autoSize(file: string | AudioData, signal?: AbortSignal): Promise<CostEstimate> {
+    const duration = measureWav(wavInput(file)) + TRAILING_SILENCE_SECONDS;
+    const estimate = await this._client.estimateCost(duration, { signal });
+    if (estimate.needsExtension) {
+      const message = this._autoExtend
+        ? "File is longer than one session; it will be auto-extended"
+        : "File is longer than one session and autoExtend is off; it will expire early";
+      this._client._logger.warn(message, {
+        ...(typeof file === "string" ? { file } : {}),
+        durationSeconds: duration,
+        minutes: estimate.minutes,
+        requiredMinutes: estimate.requiredMinutes,
+        autoExtend: this._autoExtend,
+      });
+    }
+    return estimate;
+  }
 }
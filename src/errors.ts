@@ -37,3 +37,19 @@ export class AudioFormatError extends STTError {
     this.name = "AudioFormatError";
   }
 }
+
+/** A spending limit (USD or minutes) would be exceeded by a payment. */
+export class BudgetExhaustedError extends PaymentError {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExhaustedError";
+  }
+}
+
+/** The operation was cancelled through its `AbortSignal`. */
+export class AbortError extends STTError {
+  constructor(message: string) {
+    super(message);
+    this.name = "AbortError";
+  }
+}
@@ -0,0 +1,99 @@
+/** Event names mapped to their listener arguments, like `StreamEvents`. */
+export type EventMap<Events> = { [K in keyof Events]: unknown[] };
+
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+interface Registration {
+  /** A `Listener` for the event it is registered under. */
+  listener: unknown;
+  once: boolean;
+}
+
+/**
+ * A typed event emitter with the core of Node's `EventEmitter` API (`on`,
+ * `once`, `off`, `emit`, `listenerCount`), written against no runtime
+ * module so `Stream` and `Batch` need no `events` polyfill in browsers.
+ */
+export class TypedEmitter<Events extends EventMap<Events>> {
+  private _listeners = new Map<keyof Events, Registration[]>();
+
+  /** Call `listener` on every `event`. */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): this {
+    return this._add(event, listener, false);
+  }
+
+  /** Alias of `on`. */
+  addListener<K extends keyof Events>(event: K, listener: Listener<Events[K]>): this {
+    return this._add(event, listener, false);
+  }
+
+  /** Call `listener` on the next `event` only. */
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): this {
+    return this._add(event, listener, true);
+  }
+
+  /** Remove the most recently added registration of `listener` for `event`. */
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): this {
+    const registrations = this._listeners.get(event) ?? [];
+    for (let i = registrations.length - 1; i >= 0; i--) {
+      if (registrations[i].listener === listener) {
+        this._remove(event, registrations[i]);
+        break;
+      }
+    }
+    return this;
+  }
+
+  /** Alias of `off`. */
+  removeListener<K extends keyof Events>(event: K, listener: Listener<Events[K]>): this {
+    return this.off(event, listener);
+  }
+
+  /** Remove every listener for `event`, or for all events. */
+  removeAllListeners(event?: keyof Events): this {
+    if (event === undefined) this._listeners.clear();
+    else this._listeners.delete(event);
+    return this;
+  }
+
+  /**
+   * Call the listeners for `event` in the order they were added; returns
+   * whether there were any. A listener that throws stops the others and
+   * the error propagates to the caller, as with Node's `EventEmitter`.
+   */
+  emit<K extends keyof Events>(event: K, ...args: Events[K]): boolean {
+    const registrations = this._listeners.get(event);
+    if (!registrations) return false;
+    // Copied, as in Node, so listeners changed while emitting apply from the next event
+    for (const registration of [...registrations]) {
+      if (registration.once) this._remove(event, registration);
+      (registration.listener as Listener<Events[K]>)(...args);
+    }
+    return true;
+  }
+
+  /** Number of listeners for `event`. */
+  listenerCount(event: keyof Events): number {
+    return this._listeners.get(event)?.length ?? 0;
+  }
+
+  private _add<K extends keyof Events>(
+    event: K,
+    listener: Listener<Events[K]>,
+    once: boolean
+  ): this {
+    const registrations = this._listeners.get(event);
+    const registration = { listener, once };
+    if (registrations) registrations.push(registration);
+    else this._listeners.set(event, [registration]);
+    return this;
+  }
+
+  private _remove(event: keyof Events, registration: Registration): void {
+    const registrations = this._listeners.get(event);
+    if (!registrations) return;
+    const index = registrations.indexOf(registration);
+    if (index >= 0) registrations.splice(index, 1);
+    if (registrations.length === 0) this._listeners.delete(event);
+  }
+}
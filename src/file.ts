@@ -0,0 +1,92 @@
+/**
+ * Node-only file access. Bundlers replace this module with an empty one
+ * for browsers (see `browser` in package.json), so callers check that
+ * `readAudioFile` exists before using it.
+ */
+
+import { readFileSync } from "node:fs";
+import { readFile, rename, writeFile } from "node:fs/promises";
+
+import { AudioFormatError, STTError } from "./errors.js";
+import type { SessionStore } from "./store.js";
+import type { SessionHandle } from "./types.js";
+
+/** Read a whole audio file, mapping I/O failures to `AudioFormatError`. */
+export function readAudioFile(path: string): Uint8Array {
+  try {
+    return readFileSync(path);
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new AudioFormatError(`File not found: ${path}`);
+    }
+    throw new AudioFormatError(`Cannot read file: ${path}`);
+  }
+}
+
+/**
+ * Keeps sessions in a JSON file, so they survive restarts. Writes replace
+ * the file atomically and are readable by the owner only, since session
+ * keys grant use of paid minutes. Operations are serialized within a
+ * process; do not share one file between processes.
+ */
+export class FileSessionStore implements SessionStore {
+  private _path: string;
+  /** Tail of the operation chain; each operation starts after the last. */
+  private _queue: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    this._path = path;
+  }
+
+  list(): Promise<SessionHandle[]> {
+    return this._run(() => this._read());
+  }
+
+  save(handle: SessionHandle): Promise<void> {
+    return this._run(async () => {
+      const handles = (await this._read()).filter((h) => h.sessionId !== handle.sessionId);
+      await this._write([...handles, handle]);
+    });
+  }
+
+  remove(sessionId: string): Promise<void> {
+    return this._run(async () => {
+      const handles = await this._read();
+      const kept = handles.filter((h) => h.sessionId !== sessionId);
+      if (kept.length !== handles.length) await this._write(kept);
+    });
+  }
+
+  private _run<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this._queue.then(operation);
+    this._queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async _read(): Promise<SessionHandle[]> {
+    let text: string;
+    try {
+      text = await readFile(this._path, "utf8");
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw new STTError(`Cannot read session store ${this._path}: ${e}`);
+    }
+    try {
+      const handles: unknown = JSON.parse(text);
+      if (!Array.isArray(handles)) throw new Error("not an array");
+      return handles as SessionHandle[];
+    } catch (e: unknown) {
+      throw new STTError(`Invalid session store ${this._path}: ${e}`);
+    }
+  }
+
+  private async _write(handles: SessionHandle[]): Promise<void> {
+    const tmp = `${this._path}.${process.pid}.tmp`;
+    try {
+      await writeFile(tmp, JSON.stringify(handles, null, 2), { mode: 0o600 });
+      await rename(tmp, this._path);
+    } catch (e: unknown) {
+      throw new STTError(`Cannot write session store ${this._path}: ${e}`);
+    }
+  }
+}
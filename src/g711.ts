@@ -0,0 +1,45 @@
+/** G.711 μ-law and A-law decoding (ITU-T G.711) to 16-bit linear PCM. */
+
+function decodeMulaw(byte: number): number {
+  const u = ~byte & 0xff;
+  const exponent = (u >> 4) & 0x07;
+  const mantissa = u & 0x0f;
+  const magnitude = (((mantissa << 3) + 0x84) << exponent) - 0x84;
+  return u & 0x80 ? -magnitude : magnitude;
+}
+
+function decodeAlaw(byte: number): number {
+  const a = byte ^ 0x55;
+  const segment = (a & 0x70) >> 4;
+  let magnitude = (a & 0x0f) << 4;
+  if (segment === 0) {
+    magnitude += 8;
+  } else {
+    magnitude = (magnitude + 0x108) << (segment - 1);
+  }
+  return a & 0x80 ? magnitude : -magnitude;
+}
+
+function buildTable(decode: (byte: number) => number): Int16Array {
+  const table = new Int16Array(256);
+  for (let i = 0; i < 256; i++) table[i] = decode(i);
+  return table;
+}
+
+/** Lookup tables: encoded byte → linear PCM16 sample. */
+export const MULAW_TABLE = buildTable(decodeMulaw);
+export const ALAW_TABLE = buildTable(decodeAlaw);
+
+/** Decode μ-law bytes to float samples in [-1, 1]. */
+export function mulawToFloat(data: Uint8Array): Float32Array {
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) out[i] = MULAW_TABLE[data[i]] / 32768;
+  return out;
+}
+
+/** Decode A-law bytes to float samples in [-1, 1]. */
+export function alawToFloat(data: Uint8Array): Float32Array {
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) out[i] = ALAW_TABLE[data[i]] / 32768;
+  return out;
+}
@@ -0,0 +1,145 @@
+import { AbortError, ConnectionError } from "./errors.js";
+import type { Logger } from "./logger.js";
+
+/** How HTTP requests to the server are retried; see `STTClientOptions.retry`. */
+export interface RetryOptions {
+  /** Attempts per request, including the first (default 3). */
+  attempts?: number;
+  /** Backoff before the first retry in ms, doubled per retry and jittered (default 500). */
+  baseDelayMs?: number;
+  /** Longest backoff in ms, also capping `Retry-After` (default 8000). */
+  maxDelayMs?: number;
+  /**
+   * Timeout of each attempt in ms (default 30000). For paid requests this
+   * covers the 402 challenge, signing and the paid request.
+   */
+  timeoutMs?: number;
+  /** Response statuses that are retried (default 408, 425, 429, 500, 502, 503, 504). */
+  retryStatuses?: number[];
+}
+
+/** Options for calls that can be cancelled. */
+export interface RequestOptions {
+  /** Cancels the call; it then rejects with `AbortError`. */
+  signal?: AbortSignal;
+}
+
+/** @internal `RetryOptions` with defaults applied. */
+export type RetryPolicy = Required<RetryOptions>;
+
+/** @internal Apply defaults to `options`. */
+export function retryPolicy(options?: RetryOptions): RetryPolicy {
+  return {
+    attempts: Math.max(1, options?.attempts ?? 3),
+    baseDelayMs: options?.baseDelayMs ?? 500,
+    maxDelayMs: options?.maxDelayMs ?? 8_000,
+    timeoutMs: options?.timeoutMs ?? 30_000,
+    retryStatuses: options?.retryStatuses ?? [408, 425, 429, 500, 502, 503, 504],
+  };
+}
+
+/**
+ * @internal Fetch with `policy`: network failures, timeouts and retryable
+ * statuses are retried with exponential backoff. Returns the last
+ * response whatever its status. Throws `AbortError` once `signal` aborts
+ * and `ConnectionError` when no attempt got a response.
+ *
+ * Paid requests must carry an idempotency key, since a retry may follow
+ * a payment the server took but could not answer.
+ */
+export async function fetchWithRetry(
+  fetchFn: typeof fetch,
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    const timeout = AbortSignal.timeout(policy.timeoutMs);
+    let resp: Response;
+    try {
+      resp = await fetchFn(url, {
+        ...init,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (e: unknown) {
+      throwIfAborted(signal);
+      const reason = timeout.aborted ? `timed out after ${policy.timeoutMs}ms` : String(e);
+      // Only network failures (TypeError from fetch) and timeouts are transient
+      if (attempt >= policy.attempts || !(timeout.aborted || e instanceof TypeError)) {
+        throw new ConnectionError(`Cannot reach server: ${reason}`);
+      }
+      await backoff(policy, attempt, null, url, reason, logger, signal);
+      continue;
+    }
+
+    if (attempt >= policy.attempts || !policy.retryStatuses.includes(resp.status)) {
+      return resp;
+    }
+    await resp.body?.cancel().catch(() => undefined);
+    await backoff(policy, attempt, resp, url, `HTTP ${resp.status}`, logger, signal);
+  }
+}
+
+/** Wait before retry `attempt + 1`, honouring the server's `Retry-After`. */
+async function backoff(
+  policy: RetryPolicy,
+  attempt: number,
+  resp: Response | null,
+  url: string,
+  reason: string,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<void> {
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  // Half fixed, half random, so clients that failed together spread out
+  let delayMs = Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+  const retryAfter = Number(resp?.headers.get("Retry-After"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    delayMs = Math.min(retryAfter * 1000, policy.maxDelayMs);
+  }
+  logger.warn("Request failed, retrying", {
+    url,
+    attempt,
+    maxAttempts: policy.attempts,
+    delayMs,
+    reason,
+  });
+  await abortableSleep(delayMs, signal);
+}
+
+/** @internal Throw `AbortError` if `signal` has aborted. */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError(signal);
+}
+
+/** @internal `AbortError` carrying the signal's reason, if it gave one. */
+export function abortError(signal: AbortSignal): AbortError {
+  const reason: unknown = signal.reason;
+  const detail = reason instanceof Error ? reason.message : reason === undefined ? "" : String(reason);
+  // The default reason is a DOMException saying only that it was aborted
+  return new AbortError(
+    detail && (reason as { name?: string }).name !== "AbortError" ? `Aborted: ${detail}` : "Aborted"
+  );
+}
+
+/** Sleep for `ms`, rejecting with `AbortError` as soon as `signal` aborts. */
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
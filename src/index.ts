@@ -1,11 +1,85 @@
 export { STTClient, SessionContext } from "./client.js";
 export type { STTClientOptions, SessionOptions } from "./client.js";
+export type { RequestOptions, RetryOptions } from "./http.js";
+export { MemorySessionStore } from "./store.js";
+export type { SessionStore } from "./store.js";
+export { LANGUAGES, isLanguage } from "./languages.js";
+export type { Language } from "./languages.js";
+export { NETWORKS } from "./wallet.js";
+export type { EvmSigner, PaymentOptions, PaymentSigner, SolanaSigner } from "./wallet.js";
 export { Stream } from "./stream.js";
-export type { Transcription, SessionInfo, PricingInfo } from "./types.js";
+export { Batch } from "./batch.js";
+export type { TranscribeChannelsOptions } from "./channels.js";
+export { VoiceActivityDetector } from "./vad.js";
+export type { VadOptions, VadStats } from "./vad.js";
+export type {
+  BatchOptions,
+  BatchFileResult,
+  BatchFileStartedEvent,
+  BatchProgressEvent,
+  BatchEvents,
+} from "./batch.js";
+export type {
+  PacingOptions,
+  SendAudioOptions,
+  StreamAudioOptions,
+  TranscribeFileOptions,
+  TranscribeSourceOptions,
+} from "./stream.js";
+export type { AudioSource } from "./source.js";
+export type { AudioData } from "./bytes.js";
+export type { WebSocketFactory, WebSocketLike } from "./transport.js";
+export { captureMicrophone } from "./browser.js";
+export type {
+  AudioContextLike,
+  CaptureMicrophoneOptions,
+  MediaStreamLike,
+  MicrophoneCapture,
+} from "./browser.js";
+export { decodeWav, decodeWavChannels, measureWav } from "./audio.js";
+export type {
+  WavData,
+  LoadWavOptions,
+  AudioEncoding,
+  AudioInputFormat,
+} from "./audio.js";
+export type {
+  Transcription,
+  SessionInfo,
+  SessionHandle,
+  StreamUsage,
+  PaymentReceipt,
+  ExtendResult,
+  PricingInfo,
+  CostEstimate,
+  StreamEvents,
+  ReadyEvent,
+  ExpiringEvent,
+  ExtendedEvent,
+  ExtendFailedEvent,
+  ExpiredEvent,
+  ServerErrorEvent,
+  ClosedEvent,
+  ReconnectingEvent,
+  ReconnectedEvent,
+} from "./types.js";
+export { TranscriptBuilder } from "./transcript.js";
+export type {
+  TranscriptSegment,
+  TranscriptDocument,
+  SubtitleOptions,
+  TranscriptFormat,
+} from "./transcript.js";
+export { PaymentLedger } from "./ledger.js";
+export type { PaymentRecord, SpendingLimits } from "./ledger.js";
+export { noopLogger, consoleLogger, pinoLogger } from "./logger.js";
+export type { Logger, LogFields, PinoLike } from "./logger.js";
 export {
   STTError,
   PaymentError,
   SessionExpiredError,
   ConnectionError,
   AudioFormatError,
+  BudgetExhaustedError,
+  AbortError,
 } from "./errors.js";
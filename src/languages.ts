@@ -0,0 +1,49 @@
+import { STTError } from "./errors.js";
+
+/** ISO 639-1 codes of the languages the service transcribes. */
+export const LANGUAGES = [
+  "en", // English
+  "ru", // Russian
+  "de", // German
+  "fr", // French
+  "es", // Spanish
+  "it", // Italian
+  "pt", // Portuguese
+  "nl", // Dutch
+  "pl", // Polish
+  "cs", // Czech
+  "ro", // Romanian
+  "hu", // Hungarian
+  "el", // Greek
+  "tr", // Turkish
+  "uk", // Ukrainian
+  "sv", // Swedish
+  "no", // Norwegian
+  "da", // Danish
+  "fi", // Finnish
+  "ca", // Catalan
+  "hr", // Croatian
+  "lt", // Lithuanian
+  "sl", // Slovenian
+  "lv", // Latvian
+  "et", // Estonian
+] as const;
+
+/** A supported language code, e.g. `"en"`. */
+export type Language = (typeof LANGUAGES)[number];
+
+/** Check if a string is a supported language code. */
+export function isLanguage(value: string): value is Language {
+  return (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * @internal Throw `STTError` unless `value` is a supported language, for
+ * callers whose input is not type-checked.
+ */
+export function checkLanguage(value: string): Language {
+  if (!isLanguage(value)) {
+    throw new STTError(`Unsupported language "${value}"; expected one of: ${LANGUAGES.join(", ")}`);
+  }
+  return value;
+}
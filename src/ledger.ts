@@ -0,0 +1,93 @@
+import { BudgetExhaustedError } from "./errors.js";
+import type { PaymentReceipt } from "./types.js";
+
+/** Caps on what may be spent, per session or per client. */
+export interface SpendingLimits {
+  /** Maximum total USD to pay. */
+  maxSpendUsd?: number;
+  /** Maximum total minutes to buy. */
+  maxTotalMinutes?: number;
+}
+
+/** @internal Limits shared by a group of sessions, such as a batch. */
+export interface SharedBudget {
+  limits: SpendingLimits;
+  /** Sessions whose payments count against `limits`. */
+  sessionIds: Set<string>;
+}
+
+/** One x402 payment made by the client. */
+export interface PaymentRecord {
+  /** `session` for the initial purchase, `extend` for auto/manual extensions. */
+  kind: "session" | "extend";
+  sessionId: string;
+  amountUsd: number;
+  minutes: number;
+  timestamp: Date;
+  /** On-chain settlement, if the server reported one. */
+  receipt: PaymentReceipt | null;
+}
+
+/** In-memory record of every payment made by an `STTClient`. */
+export class PaymentLedger {
+  private _records: PaymentRecord[] = [];
+
+  /** @internal Append a payment. */
+  _record(record: PaymentRecord): void {
+    this._records.push(record);
+  }
+
+  /** All payments, optionally for one session, oldest first. */
+  entries(sessionId?: string): PaymentRecord[] {
+    return sessionId === undefined
+      ? [...this._records]
+      : this._records.filter((r) => r.sessionId === sessionId);
+  }
+
+  /** Total USD paid, optionally for one session. */
+  totalUsd(sessionId?: string): number {
+    return this.entries(sessionId).reduce((sum, r) => sum + r.amountUsd, 0);
+  }
+
+  /** Total minutes bought, optionally for one session. */
+  totalMinutes(sessionId?: string): number {
+    return this.entries(sessionId).reduce((sum, r) => sum + r.minutes, 0);
+  }
+}
+
+/** True if `limits` caps spending or minutes at all. */
+export function hasLimits(limits: SpendingLimits | undefined): boolean {
+  return limits?.maxSpendUsd !== undefined || limits?.maxTotalMinutes !== undefined;
+}
+
+/**
+ * Throw `BudgetExhaustedError` if buying `minutes` more for about
+ * `estimatedUsd`, on top of what `spent` already covers, would exceed `limits`.
+ */
+export function checkLimits(
+  limits: SpendingLimits | undefined,
+  scope: "client" | "session" | "batch",
+  spent: { usd: number; minutes: number },
+  minutes: number,
+  estimatedUsd: number
+): void {
+  if (!limits) return;
+
+  if (
+    limits.maxTotalMinutes !== undefined &&
+    spent.minutes + minutes > limits.maxTotalMinutes
+  ) {
+    throw new BudgetExhaustedError(
+      `Buying ${minutes} more minutes would exceed the ${scope} limit of ${limits.maxTotalMinutes} minutes`
+    );
+  }
+  // Small tolerance so float rounding never blocks an exact fit
+  if (
+    limits.maxSpendUsd !== undefined &&
+    spent.usd + estimatedUsd > limits.maxSpendUsd + 1e-9
+  ) {
+    throw new BudgetExhaustedError(
+      `Spending $${estimatedUsd.toFixed(4)} more would exceed the ${scope} limit of $${limits.maxSpendUsd}`
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/** Structured context attached to a log line. */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Leveled logger used by the SDK. The signature matches winston
+ * (`logger.info(message, meta)`); wrap pino with `pinoLogger()`.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/** Default logger: discards everything. */
+export const noopLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/** Logger that writes to `console`, with fields appended as an object. */
+export const consoleLogger: Logger = {
+  debug: (message, fields) => console.debug(message, ...(fields ? [fields] : [])),
+  info: (message, fields) => console.log(message, ...(fields ? [fields] : [])),
+  warn: (message, fields) => console.warn(message, ...(fields ? [fields] : [])),
+  error: (message, fields) => console.error(message, ...(fields ? [fields] : [])),
+};
+
+/** The subset of a pino logger that `pinoLogger()` needs. */
+export interface PinoLike {
+  debug(obj: object, msg?: string): void;
+  info(obj: object, msg?: string): void;
+  warn(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+}
+
+/** Adapt a pino logger, which takes `(fields, message)`, to `Logger`. */
+export function pinoLogger(pino: PinoLike): Logger {
+  return {
+    debug: (message, fields) => pino.debug(fields ?? {}, message),
+    info: (message, fields) => pino.info(fields ?? {}, message),
+    warn: (message, fields) => pino.warn(fields ?? {}, message),
+    error: (message, fields) => pino.error(fields ?? {}, message),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Node entry point: everything in the main entry plus helpers that read
+ * WAV files from disk and a file-backed session store. Import from
+ * `@dtelecom/stt/node`.
+ */
+
+import { decodeWav, decodeWavChannels, measureWav } from "./audio.js";
+import type { LoadWavOptions, WavData } from "./audio.js";
+import { readAudioFile } from "./file.js";
+
+export * from "./index.js";
+export { FileSessionStore } from "./file.js";
+
+/**
+ * Load a WAV file as PCM16, 16kHz, mono.
+ * Other sample rates, channel counts and 8/24/32-bit integer or float
+ * samples are converted, unless `strict` is set.
+ * Returns the raw PCM data and format info.
+ */
+export function loadWav(path: string, options?: LoadWavOptions): WavData {
+  return decodeWav(readAudioFile(path), options);
+}
+
+/** Duration of a WAV file's audio in seconds, without decoding it. */
+export function wavDuration(path: string): number {
+  return measureWav(readAudioFile(path));
+}
+
+/**
+ * Load a WAV file as one PCM16 16kHz buffer per channel, in channel
+ * order, for transcribing each channel separately.
+ */
+export function loadWavChannels(path: string): Uint8Array[] {
+  return decodeWavChannels(readAudioFile(path));
+}
@@ -0,0 +1,241 @@
+import type { Readable } from "node:stream";
+import type { ReadableStream } from "node:stream/web";
+
+import {
+  AudioConverter,
+  CHANNELS,
+  SAMPLE_RATE,
+  SAMPLE_WIDTH,
+  StreamResampler,
+  decodeSamples,
+  downmix,
+  floatToPcm16,
+} from "./audio.js";
+import type { AudioInputFormat, WavHeader } from "./audio.js";
+import { EMPTY_BYTES, ascii, concatBytes, copyBytes, dataView, toBytes } from "./bytes.js";
+import { AudioFormatError } from "./errors.js";
+
+/** Anything `Stream.transcribeSource` can read audio bytes from. */
+export type AudioSource =
+  | Readable
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/** Largest fmt chunk we are willing to buffer while parsing a header. */
+const MAX_FMT_CHUNK_BYTES = 1024;
+
+/** Iterate a Node Readable, WHATWG ReadableStream or async iterable as byte chunks. */
+export async function* iterateSource(source: AudioSource): AsyncGenerator<Uint8Array> {
+  if (typeof (source as ReadableStream<Uint8Array>).getReader === "function") {
+    const reader = (source as ReadableStream<Uint8Array>).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield toBytes(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  for await (const chunk of source as AsyncIterable<Uint8Array | string>) {
+    if (typeof chunk === "string") {
+      throw new AudioFormatError("Audio source must yield bytes, not strings");
+    }
+    yield toBytes(chunk);
+  }
+}
+
+/**
+ * Decode an audio byte stream into PCM16 16kHz mono chunks.
+ * Parses a WAV header incrementally, or treats the input as headerless
+ * mono audio when `raw` is given. Memory use does not grow with input length.
+ */
+export async function* decodeSource(
+  source: AudioSource,
+  raw?: AudioInputFormat
+): AsyncGenerator<Uint8Array> {
+  const decoder = raw ? new AudioConverter(raw) : new WavStreamDecoder();
+  for await (const chunk of iterateSource(source)) {
+    const pcm = decoder.convert(chunk);
+    if (pcm.length > 0) yield pcm;
+  }
+  const tail = decoder.flush();
+  if (tail.length > 0) yield tail;
+}
+
+type ParseState = "riff" | "chunkHeader" | "fmt" | "skip" | "data";
+
+/**
+ * Incremental WAV decoder: consumes arbitrary byte chunks, parses the
+ * RIFF header as it arrives and converts the data chunk to PCM16 16kHz mono.
+ */
+export class WavStreamDecoder {
+  private _state: ParseState = "riff";
+  /** Header bytes collected for the current parse state. */
+  private _pending = EMPTY_BYTES;
+  /** Bytes still expected by the current chunk (fmt or skip). */
+  private _need = 12;
+  private _header: Omit<WavHeader, "data"> | null = null;
+  private _frameDecoder: FrameDecoder | null = null;
+  /** Data bytes left, or Infinity when the header leaves the size open. */
+  private _dataRemaining = Infinity;
+
+  /** Format of the data chunk, once the header has been parsed. */
+  get header(): Omit<WavHeader, "data"> | null {
+    return this._header;
+  }
+
+  convert(chunk: Uint8Array): Uint8Array {
+    const out: Uint8Array[] = [];
+    let data = chunk;
+
+    while (data.length > 0) {
+      if (this._state === "data") {
+        // Ignore trailing chunks (e.g. LIST) after a sized data chunk
+        const n = Math.min(this._dataRemaining, data.length);
+        this._dataRemaining -= n;
+        if (n > 0) out.push(this._frameDecoder!.convert(data.subarray(0, n)));
+        break;
+      }
+
+      if (this._state === "skip") {
+        const n = Math.min(this._need, data.length);
+        this._need -= n;
+        data = data.subarray(n);
+        if (this._need === 0) this._expectChunkHeader();
+        continue;
+      }
+
+      // riff, chunkHeader, fmt: collect exactly `_need` bytes
+      const n = Math.min(this._need - this._pending.length, data.length);
+      this._pending = concatBytes([this._pending, data.subarray(0, n)]);
+      data = data.subarray(n);
+      if (this._pending.length < this._need) break;
+
+      const bytes = this._pending;
+      this._pending = EMPTY_BYTES;
+      this._advance(bytes);
+    }
+
+    if (out.length === 0) return EMPTY_BYTES;
+    return concatBytes(out);
+  }
+
+  flush(): Uint8Array {
+    if (this._state !== "data") {
+      throw new AudioFormatError(
+        this._header
+          ? "Cannot read WAV stream: no data chunk"
+          : "Cannot read WAV stream: incomplete header"
+      );
+    }
+    return this._frameDecoder!.flush();
+  }
+
+  private _expectChunkHeader(): void {
+    this._state = "chunkHeader";
+    this._need = 8;
+  }
+
+  private _advance(bytes: Uint8Array): void {
+    const view = dataView(bytes);
+    if (this._state === "riff") {
+      const riff = ascii(bytes, 0, 4);
+      const wave = ascii(bytes, 8, 12);
+      if (riff !== "RIFF" || wave !== "WAVE") {
+        throw new AudioFormatError("Cannot read WAV stream: not a valid WAV");
+      }
+      this._expectChunkHeader();
+      return;
+    }
+
+    if (this._state === "chunkHeader") {
+      const chunkId = ascii(bytes, 0, 4);
+      const chunkSize = view.getUint32(4, true);
+      // Chunks are word-aligned
+      const padded = chunkSize + (chunkSize % 2);
+
+      if (chunkId === "fmt ") {
+        if (chunkSize < 16 || chunkSize > MAX_FMT_CHUNK_BYTES) {
+          throw new AudioFormatError(`Cannot read WAV stream: bad fmt chunk size ${chunkSize}`);
+        }
+        this._state = "fmt";
+        this._need = padded;
+      } else if (chunkId === "data") {
+        if (!this._header) {
+          throw new AudioFormatError("Cannot read WAV stream: no fmt chunk");
+        }
+        this._state = "data";
+        // Streaming writers leave the size as 0 or 0xFFFFFFFF
+        this._dataRemaining =
+          chunkSize === 0 || chunkSize === 0xffffffff ? Infinity : chunkSize;
+        this._frameDecoder = new FrameDecoder(this._header);
+      } else {
+        this._state = "skip";
+        this._need = padded;
+        if (padded === 0) this._expectChunkHeader();
+      }
+      return;
+    }
+
+    // fmt chunk body
+    let audioFormat = view.getUint16(0, true);
+    if (audioFormat === 0xfffe && bytes.length >= 26) {
+      audioFormat = view.getUint16(24, true);
+    }
+    this._header = {
+      audioFormat,
+      channels: view.getUint16(2, true),
+      sampleRate: view.getUint32(4, true),
+      bitsPerSample: view.getUint16(14, true),
+    };
+    const { channels, sampleRate, bitsPerSample } = this._header;
+    if (channels < 1 || sampleRate < 1 || bitsPerSample < 8 || bitsPerSample % 8 !== 0) {
+      throw new AudioFormatError("Cannot read WAV stream: invalid fmt chunk");
+    }
+    this._expectChunkHeader();
+  }
+}
+
+/** Converts interleaved WAV frames of any supported format, chunk by chunk. */
+class FrameDecoder {
+  private _format: Omit<WavHeader, "data">;
+  private _frameBytes: number;
+  private _passthrough: boolean;
+  private _resampler: StreamResampler | null;
+  /** Incomplete trailing frame from the previous chunk. */
+  private _carry = EMPTY_BYTES;
+
+  constructor(format: Omit<WavHeader, "data">) {
+    this._format = format;
+    this._frameBytes = (format.bitsPerSample / 8) * format.channels;
+    this._passthrough =
+      format.audioFormat === 1 &&
+      format.bitsPerSample === SAMPLE_WIDTH * 8 &&
+      format.channels === CHANNELS &&
+      format.sampleRate === SAMPLE_RATE;
+    this._resampler =
+      format.sampleRate === SAMPLE_RATE
+        ? null
+        : new StreamResampler(format.sampleRate, SAMPLE_RATE);
+  }
+
+  convert(chunk: Uint8Array): Uint8Array {
+    let data = this._carry.length > 0 ? concatBytes([this._carry, chunk]) : chunk;
+    const usable = data.length - (data.length % this._frameBytes);
+    this._carry = copyBytes(data.subarray(usable));
+    data = data.subarray(0, usable);
+    if (this._passthrough) return data;
+
+    const samples = decodeSamples({ ...this._format, data });
+    const mono = downmix(samples, this._format.channels);
+    return floatToPcm16(this._resampler ? this._resampler.process(mono) : mono);
+  }
+
+  flush(): Uint8Array {
+    if (!this._resampler) return EMPTY_BYTES;
+    return floatToPcm16(this._resampler.flush());
+  }
+}
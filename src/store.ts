@@ -0,0 +1,33 @@
+import type { SessionHandle } from "./types.js";
+
+/**
+ * Where the client keeps exported sessions so leftover minutes are reused
+ * before new ones are bought (see `STTClientOptions.sessionStore`).
+ * Implement it over Redis, a database or similar to share sessions
+ * between processes.
+ */
+export interface SessionStore {
+  /** Every stored session, in no particular order. */
+  list(): Promise<SessionHandle[]>;
+  /** Add a session, or replace the stored one with the same `sessionId`. */
+  save(handle: SessionHandle): Promise<void>;
+  /** Forget a session; no-op if it is not stored. */
+  remove(sessionId: string): Promise<void>;
+}
+
+/** Keeps sessions for the life of the process. */
+export class MemorySessionStore implements SessionStore {
+  private _handles = new Map<string, SessionHandle>();
+
+  async list(): Promise<SessionHandle[]> {
+    return [...this._handles.values()].map((h) => ({ ...h }));
+  }
+
+  async save(handle: SessionHandle): Promise<void> {
+    this._handles.set(handle.sessionId, { ...handle });
+  }
+
+  async remove(sessionId: string): Promise<void> {
+    this._handles.delete(sessionId);
+  }
+}
@@ -1,43 +1,212 @@
-import WebSocket from "ws";
-
-import { BYTES_PER_SECOND, loadWav, silence, sleep } from "./audio.js";
 import {
+  AudioConverter,
+  AudioRingBuffer,
+  BYTES_PER_SECOND,
+  SAMPLE_WIDTH,
+  decodeWav,
+  silence,
+  sleep,
+  wavInput,
+} from "./audio.js";
+import { EMPTY_BYTES, concatBytes, copyBytes, toBytes } from "./bytes.js";
+import type { AudioData } from "./bytes.js";
+import {
+  BudgetExhaustedError,
   ConnectionError,
   SessionExpiredError,
   STTError,
 } from "./errors.js";
-import type { SessionInfo, Transcription } from "./types.js";
+import type { AudioInputFormat } from "./audio.js";
+import { TypedEmitter } from "./events.js";
+import { abortError } from "./http.js";
+import { checkLanguage } from "./languages.js";
+import type { Language } from "./languages.js";
+import type { RequestOptions } from "./http.js";
+import type { SharedBudget, SpendingLimits } from "./ledger.js";
+import type { Logger } from "./logger.js";
+import { decodeSource } from "./source.js";
+import { VoiceActivityDetector } from "./vad.js";
+import type { VadOptions, VadStats } from "./vad.js";
+import type { AudioSource } from "./source.js";
+import { SOCKET_OPEN } from "./transport.js";
+import type { WebSocketFactory, WebSocketLike } from "./transport.js";
+import type {
+  ClosedEvent,
+  CostEstimate,
+  ExtendResult,
+  PaymentReceipt,
+  SessionHandle,
+  SessionInfo,
+  StreamEvents,
+  StreamUsage,
+  Transcription,
+} from "./types.js";
 import { transcriptionFromMessage } from "./types.js";
 
 /** How long to wait for new transcriptions after audio ends. */
 const FILE_DRAIN_TIMEOUT_MS = 5_000;
 /** Trailing silence to flush VAD pipeline. */
-const TRAILING_SILENCE_SECONDS = 2.0;
+export const TRAILING_SILENCE_SECONDS = 2.0;
 /** Chunk size for real-time audio streaming. */
 const CHUNK_MS = 20;
+/** Largest packet sent in one WebSocket message: one chunk, whole samples. */
+const PACKET_BYTES = (BYTES_PER_SECOND * CHUNK_MS) / 1000;
+/** How long to wait for the server's ready message. */
+const READY_TIMEOUT_MS = 30_000;
+/** Upper bound for the reconnect backoff delay. */
+const RECONNECT_MAX_DELAY_MS = 10_000;
+/** Error code the server answers a config with when it refuses the language. */
+const UNSUPPORTED_LANGUAGE_CODE = "unsupported_language";
+
+export interface ReconnectOptions {
+  /** Reconnect automatically when the socket drops. */
+  enabled: boolean;
+  /** Attempts before giving up with a ConnectionError. */
+  maxAttempts: number;
+  /** Base backoff delay, doubled after each failed attempt. */
+  delayMs: number;
+  /** Seconds of audio kept for replay while disconnected. */
+  bufferSeconds: number;
+}
+
+/** How fast `transcribeFile` / `transcribeSource` push audio to the server. */
+export interface PacingOptions {
+  /** Multiple of real time, e.g. 4 sends four seconds per second (default 1). */
+  speed?: number;
+  /** Audio per WebSocket message in ms, rounded down to whole samples (default 20). */
+  chunkMs?: number;
+  /** Ignore `speed` and send as fast as the socket drains (see `highWaterMarkBytes`). */
+  unthrottled?: boolean;
+}
+
+/** Options for `Stream.sendAudio`. */
+export interface SendAudioOptions extends RequestOptions {
+  /** Format of `data` (default PCM16 16kHz). */
+  format?: AudioInputFormat;
+}
+
+export interface StreamAudioOptions {
+  /** Aborting closes the stream, and the call rejects with `AbortError`. */
+  signal?: AbortSignal;
+  pacing?: PacingOptions;
+  /** Silence appended after the audio to flush the server VAD (default 2). */
+  trailingSilenceSeconds?: number;
+  /** How long to wait for further transcriptions once audio ends (default 5000). */
+  drainTimeoutMs?: number;
+}
+
+export interface TranscribeFileOptions extends StreamAudioOptions {
+  /** Reject files that are not already PCM16, 16kHz, mono (default false). */
+  strict?: boolean;
+}
+
+export interface TranscribeSourceOptions extends StreamAudioOptions {
+  /**
+   * Treat the source as headerless mono audio in this format instead of
+   * parsing a WAV header.
+   */
+  raw?: AudioInputFormat;
+}
 
 export interface StreamOptions {
   wsUrl: string;
+  /** Opens the socket, and again on each reconnect. */
+  webSocket: WebSocketFactory;
   sessionInfo: SessionInfo;
-  client: { _extendSession(sessionId: string, minutes?: number): Promise<Record<string, unknown>> };
-  language: string;
+  client: {
+    _extendSession(
+      sessionId: string,
+      minutes?: number,
+      limits?: SpendingLimits,
+      budget?: SharedBudget
+    ): Promise<ExtendResult>;
+  };
+  language: Language;
   autoExtend: boolean;
+  /** Minutes bought per auto-extension. */
+  extendMinutes: number;
+  /** Per-session spending limits applied to auto-extensions. */
+  limits: SpendingLimits;
+  /** Limits shared with other sessions, also applied to auto-extensions. */
+  budget?: SharedBudget;
+  reconnect: ReconnectOptions;
+  /** Drop silence client-side before sending; null sends everything. */
+  vad: VadOptions | null;
+  /** Sends wait while more than this many bytes are queued on the socket. */
+  highWaterMarkBytes: number;
+  logger: Logger;
 }
 
 /**
  * WebSocket stream for sending audio and receiving transcriptions.
  * Do not instantiate directly — use `STTClient.session().open()`.
+ *
+ * Emits typed lifecycle events (see `StreamEvents`): `ready`, `expiring`,
+ * `extended`, `extendFailed`, `budgetExhausted`, `expired`, `serverError`
+ * and `closed`, plus
+ * `reconnecting`, `reconnected` and `reconnectFailed` while recovering
+ * from a dropped socket, and `usage` as time is used and bought.
  */
-export class Stream {
+export class Stream extends TypedEmitter<StreamEvents> {
   private _wsUrl: string;
+  private _webSocket: WebSocketFactory;
   private _info: SessionInfo;
   private _client: StreamOptions["client"];
-  private _language: string;
+  private _language: Language;
   private _autoExtend: boolean;
+  private _extendMinutes: number;
+  private _limits: SpendingLimits;
+  private _budget?: SharedBudget;
+  private _reconnect: ReconnectOptions;
+  private _logger: Logger;
 
-  private _ws: WebSocket | null = null;
+  private _ws: WebSocketLike | null = null;
   private _closed = false;
   private _extending = false;
+  /**
+   * Set once a spending limit blocks an extension; no further attempts,
+   * and the stream ends with it when the paid time runs out.
+   */
+  private _budgetError: BudgetExhaustedError | null = null;
+  private _reconnecting = false;
+  /** Set once the stream has ended and `closed` has been emitted. */
+  private _ended = false;
+  /** Why the stream ended abnormally; rethrown to consumers. */
+  private _endError: STTError | null = null;
+
+  /** Audio sent while the socket is down, replayed after reconnecting. */
+  private _pending: AudioRingBuffer;
+  /** Input format converter, recreated when the format changes. */
+  private _converter = new AudioConverter({});
+  /** Drops silence before sending, if enabled. */
+  private _vad: VoiceActivityDetector | null;
+  private _highWaterMark: number;
+  /** Settlements of the purchase and each extension, oldest first. */
+  private _receipts: PaymentReceipt[];
+  /** @internal Set by `SessionContext.open()` for auto-sized sessions. */
+  _sizing: CostEstimate | null = null;
+  /** Audio bytes handed to the socket. */
+  private _bytesSent = 0;
+  /** Audio bytes lost from the replay buffer while disconnected. */
+  private _bytesDropped = 0;
+  /**
+   * Audio seconds before the current connection's first byte. Server
+   * times count from the start of the connection, so they are offset by it.
+   */
+  private _connectionOffset = 0;
+  /** Remaining time last reported by the server. */
+  private _reportedSeconds: number;
+  /** `_bytesSent` at that report, which audio sent since is not yet counted in. */
+  private _bytesAtReport = 0;
+  private _minutesPurchased: number;
+  private _spentUsd: number;
+  /** Language change awaiting the server's answer. */
+  private _languageChange: {
+    language: Language;
+    resolve: (accepted: boolean) => void;
+    reject: (error: STTError) => void;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
 
   /** Queued transcriptions for the async iterator. null = end sentinel. */
   private _queue: (Transcription | null)[] = [];
@@ -45,68 +214,209 @@ export class Stream {
   private _callbacks: Array<(t: Transcription) => void> = [];
 
   constructor(options: StreamOptions) {
+    super();
     this._wsUrl = options.wsUrl;
+    this._webSocket = options.webSocket;
     this._info = options.sessionInfo;
     this._client = options.client;
     this._language = options.language;
     this._autoExtend = options.autoExtend;
+    this._extendMinutes = options.extendMinutes;
+    this._limits = options.limits;
+    this._budget = options.budget;
+    this._reconnect = options.reconnect;
+    this._vad = options.vad ? new VoiceActivityDetector(options.vad) : null;
+    this._highWaterMark = options.highWaterMarkBytes;
+    this._receipts = options.sessionInfo.receipt ? [options.sessionInfo.receipt] : [];
+    this._reportedSeconds = options.sessionInfo.remainingSeconds;
+    this._minutesPurchased = options.sessionInfo.minutes;
+    this._spentUsd = Number(options.sessionInfo.priceUsd) || 0;
+    this._logger = options.logger;
+    this._pending = new AudioRingBuffer(
+      Math.floor(BYTES_PER_SECOND * options.reconnect.bufferSeconds)
+    );
+  }
+
+  /** Id of the paid session this stream belongs to. */
+  get sessionId(): string {
+    return this._info.sessionId;
+  }
+
+  /** Language being transcribed; see `setLanguage()`. */
+  get language(): Language {
+    return this._language;
+  }
+
+  /**
+   * On-chain receipts for the session's purchase and its extensions,
+   * oldest first. Payments the server reported no settlement for are absent.
+   */
+  get receipts(): PaymentReceipt[] {
+    return [...this._receipts];
+  }
+
+  /**
+   * The estimate a `minutes: "auto"` session was bought from; null when
+   * `minutes` was given. `needsExtension` means the file is longer than
+   * one session can hold, so it relies on auto-extend to finish.
+   */
+  get sizing(): CostEstimate | null {
+    return this._sizing;
+  }
+
+  /**
+   * Audio sent, time left and money spent so far. Updated as audio is
+   * sent and the server reports remaining time; `usage` events carry
+   * each change.
+   */
+  get usage(): StreamUsage {
+    return {
+      sessionId: this._info.sessionId,
+      audioSeconds: this._bytesSent / BYTES_PER_SECOND,
+      remainingSeconds: Math.max(
+        0,
+        this._reportedSeconds - (this._bytesSent - this._bytesAtReport) / BYTES_PER_SECOND
+      ),
+      serverRemainingSeconds: this._reportedSeconds,
+      minutesPurchased: this._minutesPurchased,
+      spentUsd: this._spentUsd,
+    };
+  }
+
+  /**
+   * A handle for reopening this session with `STTClient.resumeSession()`,
+   * e.g. after a restart, without paying again. Remaining time is 0 once
+   * the session has expired.
+   */
+  exportSession(): SessionHandle {
+    return {
+      sessionId: this._info.sessionId,
+      sessionKey: this._info.sessionKey,
+      language: this._language,
+      remainingSeconds: this.usage.remainingSeconds,
+      exportedAt: new Date().toISOString(),
+    };
+  }
+
+  /** Audio kept and dropped by voice activity detection; null if disabled. */
+  get vadStats(): VadStats | null {
+    return this._vad?.stats ?? null;
   }
 
   // ── Connection lifecycle ──────────────────────────────────────────
 
-  /** @internal Connect WebSocket, send config, wait for ready. */
-  async _connect(): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
+  /**
+   * @internal Connect WebSocket, send config, wait for ready. Aborting
+   * `signal` closes the socket and rejects with `AbortError`.
+   */
+  async _connect(signal?: AbortSignal): Promise<void> {
+    const remaining = await this._open(signal);
+    this._setRemaining(remaining);
+    this._logger.info("Stream ready", {
+      sessionId: this._info.sessionId,
+      remainingSeconds: remaining,
+    });
+
+    // Deferred so listeners attached right after open() resolves see it
+    setTimeout(() =>
+      this.emit("ready", {
+        sessionId: this._info.sessionId,
+        remainingSeconds: remaining,
+        reconnected: false,
+      })
+    );
+  }
+
+  /** @internal Close the stream once `signal` aborts, as a signal given to a call would. */
+  _closeOn(signal: AbortSignal): void {
+    this.once("closed", this._watch(signal));
+  }
+
+  /**
+   * Open a socket for the current session, send config and wait for ready.
+   * Resolves with the remaining seconds reported by the server.
+   */
+  private _open(signal?: AbortSignal): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError(signal));
+        return;
+      }
+      let ws: WebSocketLike;
       try {
-        this._ws = new WebSocket(this._wsUrl);
+        ws = this._webSocket(this._wsUrl);
       } catch (e: unknown) {
         reject(new ConnectionError(`WebSocket connection failed: ${e}`));
         return;
       }
+      ws.binaryType = "arraybuffer";
+      this._ws = ws;
 
+      const onAbort = () => {
+        clearTimeout(timeout);
+        ws.close();
+        reject(abortError(signal!));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
       const timeout = setTimeout(() => {
-        this._ws?.close();
+        signal?.removeEventListener("abort", onAbort);
+        ws.close();
         reject(new ConnectionError("Timeout waiting for ready message"));
-      }, 30_000);
+      }, READY_TIMEOUT_MS);
 
-      this._ws.on("error", (err) => {
+      ws.onerror = (event) => {
         clearTimeout(timeout);
-        reject(new ConnectionError(`WebSocket connection failed: ${err.message}`));
-      });
+        signal?.removeEventListener("abort", onAbort);
+        // Browsers give no detail; ws and Node's WebSocket give a message
+        const message = (event as { message?: string }).message ?? "socket error";
+        reject(new ConnectionError(`WebSocket connection failed: ${message}`));
+      };
+
+      ws.onclose = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+        reject(new ConnectionError("WebSocket closed before ready message"));
+      };
 
-      this._ws.on("open", () => {
+      ws.onopen = () => {
+        this._logger.debug("WebSocket open, sending config", {
+          sessionId: this._info.sessionId,
+          language: this._language,
+        });
         const config = {
           type: "config",
           language: this._language,
           session_key: this._info.sessionKey,
         };
-        this._ws!.send(JSON.stringify(config));
-      });
+        ws.send(JSON.stringify(config));
+      };
 
       // Wait for the "ready" message before resolving
-      this._ws.once("message", (raw) => {
+      ws.onmessage = (event) => {
         clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
 
-        const msg = JSON.parse(raw.toString()) as Record<string, unknown>;
-        if (msg.type === "error") {
-          this._ws!.close();
+        const msg = parseMessage(event.data);
+        if (msg?.type === "error") {
+          ws.close();
           reject(new STTError(`Server error: ${msg.message ?? JSON.stringify(msg)}`));
           return;
         }
-        if (msg.type !== "ready") {
-          this._ws!.close();
+        if (msg?.type !== "ready") {
+          ws.close();
           reject(new STTError(`Expected ready message, got: ${JSON.stringify(msg)}`));
           return;
         }
 
         const remaining = (msg.remaining_seconds as number) ?? this._info.remainingSeconds;
-        console.log(`Stream ready, remaining=${Math.round(remaining)}s`);
 
         // Switch to the persistent recv loop
-        this._ws!.on("message", (data, isBinary) => this._onMessage(data, isBinary));
-        this._ws!.on("close", () => this._onClose());
-        resolve();
-      });
+        ws.onmessage = (e) => this._onMessage(e.data);
+        ws.onclose = () => {
+          if (ws === this._ws) this._onClose();
+        };
+        resolve(remaining);
+      };
     });
   }
 
@@ -115,8 +425,21 @@ export class Stream {
     if (this._closed) return;
     this._closed = true;
 
+    // Send audio still held by the resampler and the detector
+    let tail = this._converter.flush();
+    if (this._vad) {
+      tail = concatBytes([this._vad.process(tail), this._vad.flush()]);
+      this._logger.info("Voice activity detection", {
+        sessionId: this._info.sessionId,
+        ...this._vad.stats,
+      });
+    }
+    if (tail.length > 0 && this._ws?.readyState === SOCKET_OPEN) {
+      this._transmit(tail);
+    }
+
     // Signal end to async iterators
-    this._push(null);
+    this._end("client");
 
     if (this._ws) {
       try {
@@ -127,12 +450,166 @@ export class Stream {
     }
   }
 
+  /**
+   * Switch the language mid-stream by sending a new config message.
+   * Resolves true once the server confirms it, or false if the server
+   * refuses it (an `unsupported_language` error) and keeps the current
+   * language; other server errors still emit `serverError`. Reconnects
+   * keep the new language. Rejects with `STTError` for an unsupported code, and with
+   * `ConnectionError` if the socket is not open or the server does not
+   * answer in time.
+   */
+  async setLanguage(language: Language): Promise<boolean> {
+    checkLanguage(language);
+    if (this._endError) throw this._endError;
+    if (this._closed) throw new STTError("Stream is closed");
+    if (this._languageChange) throw new STTError("A language change is already pending");
+    if (language === this._language) return true;
+    if (this._ws?.readyState !== SOCKET_OPEN || this._reconnecting) {
+      throw new ConnectionError("Cannot change language: socket is not open");
+    }
+
+    const answered = new Promise<boolean>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this._languageChange = null;
+        reject(new ConnectionError("Timeout waiting for the server to confirm the language"));
+      }, READY_TIMEOUT_MS);
+      this._languageChange = { language, resolve, reject, timer };
+    });
+    this._logger.debug("Changing language", {
+      sessionId: this._info.sessionId,
+      from: this._language,
+      to: language,
+    });
+    this._ws.send(
+      JSON.stringify({ type: "config", language, session_key: this._info.sessionKey })
+    );
+    return answered;
+  }
+
+  /** Settle the pending language change, if any, with `answer`. */
+  private _settleLanguageChange(answer: boolean | STTError): void {
+    const change = this._languageChange;
+    if (!change) return;
+    this._languageChange = null;
+    clearTimeout(change.timer);
+    if (answer instanceof STTError) change.reject(answer);
+    else change.resolve(answer);
+  }
+
   // ── Sending audio ─────────────────────────────────────────────────
 
-  /** Send raw PCM16 audio bytes (16kHz mono). */
-  async sendAudio(data: Buffer): Promise<void> {
+  /**
+   * Send mono audio bytes (a `Uint8Array`, such as a Node `Buffer`, or an
+   * `ArrayBuffer`). Defaults to PCM16 16kHz; pass `{ format }` to send
+   * G.711 μ-law/A-law or another sample rate, which is decoded and
+   * resampled to PCM16 16kHz before sending.
+   * Audio is sent in packets of whole samples. Resolves once every packet
+   * is handed to the socket, waiting while more than `highWaterMarkBytes`
+   * is queued, so a slow link slows the caller instead of growing memory.
+   * While the stream is reconnecting, audio is buffered and replayed once
+   * the session resumes. With `vad` enabled, silence is dropped first.
+   * Rejects with `ConnectionError` if the socket is not open and will not
+   * be reconnected. Aborting `signal` closes the stream, and the call
+   * rejects with `AbortError`.
+   */
+  sendAudio(data: AudioData, options?: SendAudioOptions): Promise<void>;
+  /** @deprecated Pass the format as `{ format }` instead. */
+  sendAudio(data: AudioData, format?: AudioInputFormat, options?: RequestOptions): Promise<void>;
+  async sendAudio(
+    data: AudioData,
+    formatOrOptions?: AudioInputFormat | SendAudioOptions,
+    options?: RequestOptions
+  ): Promise<void> {
+    let format: AudioInputFormat | undefined;
+    if (isSendAudioOptions(formatOrOptions)) {
+      ({ format, ...options } = formatOrOptions);
+    } else {
+      format = formatOrOptions;
+    }
+
+    const unwatch = this._watch(options?.signal);
+    try {
+      if (this._endError) throw this._endError;
+      if (this._closed) throw new STTError("Stream is closed");
+
+      if (!this._converter.matches(format ?? {})) {
+        // Format changed: send what the previous converter still holds
+        const tail = this._converter.flush();
+        this._converter = new AudioConverter(format ?? {});
+        if (tail.length > 0) await this._sendSpeech(tail);
+      }
+
+      const pcm = this._converter.convert(toBytes(data));
+      if (pcm.length > 0) await this._sendSpeech(pcm);
+    } finally {
+      unwatch();
+    }
+  }
+
+  /** Send PCM16 audio through voice activity detection; returns bytes sent. */
+  private async _sendSpeech(pcm: Uint8Array, packetBytes = PACKET_BYTES): Promise<number> {
+    const speech = this._vad ? this._vad.process(pcm) : pcm;
+    await this._sendPackets(speech, packetBytes);
+    return speech.length;
+  }
+
+  /** Send PCM16 audio in packets, waiting for the socket to drain before each. */
+  private async _sendPackets(pcm: Uint8Array, packetBytes = PACKET_BYTES): Promise<void> {
+    for (let offset = 0; offset < pcm.length; offset += packetBytes) {
+      await this._waitForDrain();
+      this._send(pcm.subarray(offset, offset + packetBytes));
+    }
+  }
+
+  /** Wait while more than the high-water mark is queued on the socket. */
+  private async _waitForDrain(): Promise<void> {
+    while (
+      this._ws?.readyState === SOCKET_OPEN &&
+      this._ws.bufferedAmount > this._highWaterMark
+    ) {
+      await sleep(CHUNK_MS);
+    }
+  }
+
+  /**
+   * Send audio now, or buffer it for replay if the socket is down and
+   * will be reconnected.
+   */
+  private _send(data: Uint8Array): void {
+    if (this._endError) throw this._endError;
     if (this._closed) throw new STTError("Stream is closed");
+    if (this._ws?.readyState === SOCKET_OPEN && !this._reconnecting) {
+      this._transmit(data);
+      return;
+    }
+    // A drop not yet noticed by _onClose will still start a reconnect
+    if (this._reconnecting || this._reconnect.enabled) {
+      const buffered = this._pending.length + data.length;
+      this._pending.write(data);
+      this._bytesDropped += buffered - this._pending.length;
+      return;
+    }
+    throw new ConnectionError("Cannot send audio: socket is not open");
+  }
+
+  /** Hand audio to the open socket, counting it against the remaining time. */
+  private _transmit(data: Uint8Array): void {
     this._ws!.send(data);
+    this._bytesSent += data.length;
+    this._usageChanged();
+  }
+
+  /** Record the remaining time the server reported. */
+  private _setRemaining(seconds: number): void {
+    this._reportedSeconds = seconds;
+    this._bytesAtReport = this._bytesSent;
+    this._usageChanged();
+  }
+
+  private _usageChanged(): void {
+    // Emitted per packet, so skip building the snapshot nobody reads
+    if (this.listenerCount("usage") > 0) this.emit("usage", this.usage);
   }
 
   // ── Receiving transcriptions ──────────────────────────────────────
@@ -142,43 +619,142 @@ export class Stream {
     this._callbacks.push(callback);
   }
 
-  /** Async iterator yielding transcriptions as they arrive. */
-  async *transcriptions(): AsyncGenerator<Transcription> {
-    while (true) {
-      const item = await this._pull();
-      if (item === null) return;
-      yield item;
+  /**
+   * Async iterator yielding transcriptions as they arrive.
+   * Ends when the stream is closed; throws `SessionExpiredError` (or
+   * `BudgetExhaustedError` if a spending limit stopped auto-extend) or
+   * `ConnectionError` if the session ended abnormally. Aborting `signal`
+   * closes the stream and throws `AbortError`.
+   */
+  async *transcriptions(options?: RequestOptions): AsyncGenerator<Transcription> {
+    const unwatch = this._watch(options?.signal);
+    try {
+      while (true) {
+        const item = await this._pull();
+        if (item === null) {
+          if (this._endError) throw this._endError;
+          return;
+        }
+        yield item;
+      }
+    } finally {
+      unwatch();
     }
   }
 
   /**
    * Stream a WAV file and yield transcriptions.
-   * Loads the file, streams at real-time speed, sends trailing silence,
-   * and yields results.
+   * Takes a path (Node only) or the file's bytes. Decodes the file
+   * (converting it to PCM16 16kHz mono unless `strict`), streams it at
+   * real-time speed (see `pacing`), sends trailing silence, and yields
+   * results.
    */
-  async *transcribeFile(path: string): AsyncGenerator<Transcription> {
-    const { pcmData } = loadWav(path);
+  async *transcribeFile(
+    file: string | AudioData,
+    options?: TranscribeFileOptions
+  ): AsyncGenerator<Transcription> {
+    const { pcmData } = decodeWav(wavInput(file), { strict: options?.strict });
     const audioDuration = pcmData.length / BYTES_PER_SECOND;
-    console.log(`Streaming file ${path} (${audioDuration.toFixed(1)}s)`);
-
-    // Stream audio at real-time speed
-    const chunkBytes = Math.floor(BYTES_PER_SECOND * CHUNK_MS / 1000);
-    let offset = 0;
-    while (offset < pcmData.length) {
-      const chunk = pcmData.subarray(offset, offset + chunkBytes);
-      this._ws!.send(chunk);
-      offset += chunkBytes;
-      await sleep(CHUNK_MS);
+    this._logger.info("Streaming file", {
+      sessionId: this._info.sessionId,
+      ...(typeof file === "string" ? { path: file } : {}),
+      durationSeconds: audioDuration,
+    });
+
+    yield* this._streamPcm([pcmData], options);
+  }
+
+  /** @internal Stream PCM16 16kHz mono audio already in memory. */
+  _transcribePcm(
+    pcm: Uint8Array,
+    options?: StreamAudioOptions
+  ): AsyncGenerator<Transcription> {
+    return this._streamPcm([pcm], options);
+  }
+
+  /**
+   * Stream audio from a Node `Readable`, WHATWG `ReadableStream` or async
+   * iterable of bytes and yield transcriptions as they arrive.
+   * The input is a WAV stream (any format `decodeWav` accepts, header parsed
+   * incrementally) unless `raw` declares headerless audio. Chunks are sent
+   * as they are read, no faster than `pacing` allows, so memory use stays
+   * flat.
+   */
+  async *transcribeSource(
+    source: AudioSource,
+    options?: TranscribeSourceOptions
+  ): AsyncGenerator<Transcription> {
+    yield* this._streamPcm(decodeSource(source, options?.raw), options);
+  }
+
+  /** Run `_sendAndDrain`, closing the stream if `options.signal` aborts. */
+  private async *_streamPcm(
+    pcm: Iterable<Uint8Array> | AsyncIterable<Uint8Array>,
+    options?: StreamAudioOptions
+  ): AsyncGenerator<Transcription> {
+    const unwatch = this._watch(options?.signal);
+    try {
+      yield* this._sendAndDrain(pcm, options);
+    } finally {
+      unwatch();
     }
+  }
 
-    // Send trailing silence to flush VAD
-    this._ws!.send(silence(TRAILING_SILENCE_SECONDS));
-    await sleep(TRAILING_SILENCE_SECONDS * 1000);
+  /**
+   * Send PCM16 16kHz audio in messages of `pacing.chunkMs` with the
+   * requested pacing, yielding transcriptions received along the way, then
+   * flush and drain.
+   */
+  private async *_sendAndDrain(
+    pcm: Iterable<Uint8Array> | AsyncIterable<Uint8Array>,
+    options?: StreamAudioOptions
+  ): AsyncGenerator<Transcription> {
+    const chunkMs = options?.pacing?.chunkMs ?? CHUNK_MS;
+    if (!(chunkMs > 0 && Number.isFinite(chunkMs))) {
+      throw new RangeError(`Pacing chunkMs must be a positive number, got ${chunkMs}`);
+    }
+    const chunkBytes = Math.max(
+      SAMPLE_WIDTH,
+      Math.floor(BYTES_PER_SECOND * chunkMs / 1000 / SAMPLE_WIDTH) * SAMPLE_WIDTH
+    );
+    const pacer = new Pacer(options?.pacing);
+    let carry = EMPTY_BYTES;
+
+    for await (const block of pcm) {
+      let data = carry.length > 0 ? concatBytes([carry, block]) : block;
+      while (data.length >= chunkBytes) {
+        const sent = await this._sendSpeech(data.subarray(0, chunkBytes), chunkBytes);
+        data = data.subarray(chunkBytes);
+        await pacer.sent(sent);
+      }
+      carry = copyBytes(data);
+
+      // Hand over results received so far
+      while (this._queue.length > 0 && this._queue[0] !== null) {
+        yield this._queue.shift()!;
+      }
+    }
+    if (carry.length > 0) await this._sendSpeech(carry, chunkBytes);
+
+    // Send trailing silence to flush the server's VAD, past our own
+    const trailingSeconds = options?.trailingSilenceSeconds ?? TRAILING_SILENCE_SECONDS;
+    if (trailingSeconds > 0) {
+      const trailing = silence(trailingSeconds);
+      const data = this._vad ? this._vad.passthrough(trailing) : trailing;
+      await this._sendPackets(data, chunkBytes);
+      await pacer.sent(data.length);
+    } else if (this._vad) {
+      await this._sendPackets(this._vad.flush(), chunkBytes);
+    }
 
     // Drain transcriptions with timeout
+    const drainTimeoutMs = options?.drainTimeoutMs ?? FILE_DRAIN_TIMEOUT_MS;
     while (true) {
-      const item = await this._pullWithTimeout(FILE_DRAIN_TIMEOUT_MS);
-      if (item === null) return;
+      const item = await this._pullWithTimeout(drainTimeoutMs);
+      if (item === null) {
+        if (this._endError) throw this._endError;
+        return;
+      }
       yield item;
     }
   }
@@ -196,6 +772,7 @@ export class Stream {
     if (this._queue.length > 0) {
       return this._queue.shift()!;
     }
+    if (this._ended) return null;
     await new Promise<void>((resolve) => this._waiters.push(resolve));
     return this._queue.shift() ?? null;
   }
@@ -206,6 +783,7 @@ export class Stream {
     if (this._queue.length > 0) {
       return this._queue.shift()!;
     }
+    if (this._ended) return null;
     return new Promise<Transcription | null>((resolve) => {
       const timer = setTimeout(() => {
         // Remove the waiter if it hasn't been called
@@ -224,51 +802,226 @@ export class Stream {
 
   // ── WebSocket message handling ────────────────────────────────────
 
-  private _onMessage(raw: WebSocket.RawData, isBinary: boolean): void {
-    // Ignore binary messages from server
-    if (isBinary) return;
-
-    const text = raw.toString();
-    let msg: Record<string, unknown>;
-    try {
-      msg = JSON.parse(text);
-    } catch {
-      return;
-    }
+  private _onMessage(data: unknown): void {
+    const msg = parseMessage(data);
+    if (!msg) return;
 
     const msgType = msg.type as string;
 
     if (msgType === "transcription") {
       const t = transcriptionFromMessage(msg);
+      if (t.start !== undefined) t.start += this._connectionOffset;
+      if (t.end !== undefined) t.end += this._connectionOffset;
+      if (this._vad) {
+        // Server times count only the audio that was sent
+        if (t.start !== undefined) t.start = this._vad.toOriginalTime(t.start);
+        if (t.end !== undefined) t.end = this._vad.toOriginalTime(t.end);
+      }
       this._push(t);
       for (const cb of this._callbacks) {
         try {
           cb(t);
         } catch (e) {
-          console.error("Transcription callback error:", e);
+          this._logger.error("Transcription callback error", { error: e });
         }
       }
+    } else if (msgType === "ready" && this._languageChange) {
+      // The server confirms a new config with ready
+      this._language = this._languageChange.language;
+      this._settleLanguageChange(true);
+      if (typeof msg.remaining_seconds === "number") this._setRemaining(msg.remaining_seconds);
+      this._logger.info("Language changed", {
+        sessionId: this._info.sessionId,
+        language: this._language,
+      });
+    } else if (
+      msgType === "error" &&
+      this._languageChange &&
+      msg.code === UNSUPPORTED_LANGUAGE_CODE
+    ) {
+      this._logger.warn("Language change refused", {
+        sessionId: this._info.sessionId,
+        language: this._languageChange.language,
+        message: (msg.message as string) ?? JSON.stringify(msg),
+      });
+      this._settleLanguageChange(false);
     } else if (msgType === "session_expiring") {
       const remaining = msg.remaining_seconds as number;
-      console.warn(`Session expiring, ${Math.round(remaining)}s remaining`);
-      if (this._autoExtend && !this._extending) {
+      this._setRemaining(remaining);
+      this._logger.warn("Session expiring", {
+        sessionId: this._info.sessionId,
+        remainingSeconds: remaining,
+      });
+      const willAutoExtend =
+        this._autoExtend && !this._extending && !this._budgetError;
+      this.emit("expiring", {
+        sessionId: this._info.sessionId,
+        remainingSeconds: remaining,
+        willAutoExtend,
+      });
+      if (willAutoExtend) {
         this._autoExtendSession();
       }
     } else if (msgType === "session_extended") {
       const remaining = msg.remaining_seconds as number;
-      console.log(`Session extended, ${Math.round(remaining)}s remaining`);
+      this._setRemaining(remaining);
+      this._logger.info("Session extended", {
+        sessionId: this._info.sessionId,
+        remainingSeconds: remaining,
+      });
+      this.emit("extended", {
+        sessionId: this._info.sessionId,
+        remainingSeconds: remaining,
+      });
     } else if (msgType === "session_expired") {
-      console.error("Session expired");
-      this._push(null);
+      this._logger.error("Session expired", { sessionId: this._info.sessionId });
+      this._setRemaining(0);
+      this.emit("expired", { sessionId: this._info.sessionId });
+      this._end("expired", this._budgetError ?? new SessionExpiredError("Session expired"));
     } else if (msgType === "error") {
-      console.error(`Server error: ${msg.message ?? JSON.stringify(msg)}`);
+      const message = (msg.message as string) ?? JSON.stringify(msg);
+      this._logger.error("Server error", {
+        sessionId: this._info.sessionId,
+        message,
+      });
+      this.emit("serverError", {
+        sessionId: this._info.sessionId,
+        message,
+        raw: msg,
+      });
     }
   }
 
   private _onClose(): void {
-    if (!this._closed) {
-      this._push(null);
+    if (this._closed || this._ended) return;
+    if (this._reconnect.enabled) {
+      void this._reconnectLoop();
+      return;
     }
+    this._end("connection", new ConnectionError("Connection closed by server"));
+  }
+
+  /** Mark the stream ended, wake every waiting consumer and emit `closed` once. */
+  private _end(reason: ClosedEvent["reason"], error?: STTError): void {
+    if (this._ended) return;
+    this._ended = true;
+    this._endError = error ?? null;
+    this._settleLanguageChange(error ?? new STTError("Stream is closed"));
+    this._push(null);
+    for (const waiter of this._waiters.splice(0)) waiter();
+    this.emit("closed", { sessionId: this._info.sessionId, reason, error });
+  }
+
+  /**
+   * Abort the stream when `signal` does (at once if it already has);
+   * returns a function that stops watching.
+   */
+  private _watch(signal?: AbortSignal): () => void {
+    if (!signal) return () => {};
+    const onAbort = () => this._abort(signal);
+    if (signal.aborted) {
+      onAbort();
+      return () => {};
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    return () => signal.removeEventListener("abort", onAbort);
+  }
+
+  /** Close the socket and end the stream with `AbortError`. */
+  private _abort(signal: AbortSignal): void {
+    if (this._ended) return;
+    this._closed = true;
+    this._logger.info("Stream aborted", { sessionId: this._info.sessionId });
+    this._end("aborted", abortError(signal));
+    try {
+      this._ws?.close();
+    } catch {
+      // ignore
+    }
+  }
+
+  /** Reopen the socket with backoff, resuming the same paid session. */
+  private async _reconnectLoop(): Promise<void> {
+    if (this._reconnecting) return;
+    this._reconnecting = true;
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= this._reconnect.maxAttempts; attempt++) {
+      const delayMs = Math.min(
+        this._reconnect.delayMs * 2 ** (attempt - 1),
+        RECONNECT_MAX_DELAY_MS
+      );
+      this._logger.warn("Connection lost, reconnecting", {
+        sessionId: this._info.sessionId,
+        attempt,
+        maxAttempts: this._reconnect.maxAttempts,
+        delayMs,
+      });
+      this.emit("reconnecting", { attempt, delayMs });
+      await sleep(delayMs);
+      if (this._closed) break;
+
+      try {
+        const remaining = await this._open();
+        if (this._closed) {
+          this._ws?.close();
+          break;
+        }
+        this._setRemaining(remaining);
+        // The new connection starts with the oldest audio still buffered
+        this._connectionOffset = (this._bytesSent + this._bytesDropped) / BYTES_PER_SECOND;
+        const replayedBytes = await this._replay();
+        this._reconnecting = false;
+        this._logger.info("Stream reconnected", {
+          sessionId: this._info.sessionId,
+          remainingSeconds: remaining,
+        });
+        this.emit("reconnected", { attempts: attempt, replayedBytes });
+        this.emit("ready", {
+          sessionId: this._info.sessionId,
+          remainingSeconds: remaining,
+          reconnected: true,
+        });
+        return;
+      } catch (e) {
+        lastError = e;
+      }
+    }
+
+    this._reconnecting = false;
+    if (this._closed) return;
+
+    const detail = lastError instanceof Error ? `: ${lastError.message}` : "";
+    const error = new ConnectionError(
+      `Reconnect failed after ${this._reconnect.maxAttempts} attempts${detail}`
+    );
+    this.emit("reconnectFailed", error);
+    this._end("connection", error);
+  }
+
+  /**
+   * Send the audio buffered while disconnected in packets, like live audio,
+   * including audio buffered while replaying, so it stays in order.
+   * Returns the bytes replayed. If the socket drops again, the rest goes
+   * back into the buffer and `ConnectionError` is thrown.
+   */
+  private async _replay(): Promise<number> {
+    let replayed = 0;
+    while (this._pending.length > 0) {
+      const data = this._pending.drain();
+      for (let offset = 0; offset < data.length; offset += PACKET_BYTES) {
+        await this._waitForDrain();
+        if (this._ws?.readyState !== SOCKET_OPEN) {
+          const newer = this._pending.drain();
+          this._pending.write(data.subarray(offset));
+          this._pending.write(newer);
+          throw new ConnectionError("Connection lost while replaying audio");
+        }
+        this._transmit(data.subarray(offset, offset + PACKET_BYTES));
+        replayed += Math.min(PACKET_BYTES, data.length - offset);
+      }
+    }
+    return replayed;
   }
 
   private async _autoExtendSession(): Promise<void> {
@@ -276,17 +1029,100 @@ export class Stream {
     try {
       const result = await this._client._extendSession(
         this._info.sessionId,
-        5
-      );
-      console.log(
-        `Auto-extended session: +${result.minutes_added ?? 5}min, ` +
-          `remaining=${Math.round(result.remaining_seconds as number)}s, ` +
-          `$${result.price_usd ?? "?"}`
+        this._extendMinutes,
+        this._limits,
+        this._budget
       );
+      if (result.receipt) this._receipts.push(result.receipt);
+      this._minutesPurchased += result.minutesAdded;
+      this._spentUsd += Number(result.priceUsd) || 0;
+      this._usageChanged();
+      this._logger.info("Auto-extended session", {
+        sessionId: this._info.sessionId,
+        minutesAdded: result.minutesAdded,
+        remainingSeconds: result.remainingSeconds,
+        priceUsd: result.priceUsd,
+        transactionHash: result.receipt?.transactionHash,
+      });
     } catch (e) {
-      console.error("Auto-extend failed:", e);
+      if (e instanceof BudgetExhaustedError) {
+        this._budgetError = e;
+        this._logger.warn("Spending limit reached, not extending", {
+          sessionId: this._info.sessionId,
+          message: e.message,
+        });
+        this.emit("budgetExhausted", e);
+        return;
+      }
+      this._logger.error("Auto-extend failed", {
+        sessionId: this._info.sessionId,
+        error: e,
+      });
+      this.emit("extendFailed", {
+        sessionId: this._info.sessionId,
+        error: e instanceof Error ? e : new STTError(String(e)),
+      });
     } finally {
       this._extending = false;
     }
   }
 }
+
+/**
+ * Throttles audio sends to a multiple of real time, measured against the
+ * wall clock so slow producers (live sources) are never delayed further.
+ */
+class Pacer {
+  private _speed: number;
+  private _unthrottled: boolean;
+  private _startedAt = Date.now();
+  private _sentBytes = 0;
+
+  constructor(options?: PacingOptions) {
+    this._speed = options?.speed ?? 1;
+    this._unthrottled = options?.unthrottled ?? false;
+    if (!(this._speed > 0)) {
+      throw new STTError(`Pacing speed must be positive, got ${this._speed}`);
+    }
+  }
+
+  /** Record sent bytes and wait until it is time for the next chunk. */
+  async sent(bytes: number): Promise<void> {
+    this._sentBytes += bytes;
+    // Only socket backpressure, applied when sending, limits the rate
+    if (this._unthrottled) return;
+
+    const audioMs = (this._sentBytes / BYTES_PER_SECOND) * 1000;
+    const aheadMs = audioMs / this._speed - (Date.now() - this._startedAt);
+    if (aheadMs > 0) await sleep(aheadMs);
+  }
+}
+
+/** Parse a JSON text message; null for binary or malformed messages. */
+function parseMessage(data: unknown): Record<string, unknown> | null {
+  if (typeof data !== "string") return null;
+  try {
+    const msg: unknown = JSON.parse(data);
+    return msg !== null && typeof msg === "object" ? (msg as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether `sendAudio` was given options rather than a bare format. Throws
+ * if it has keys of both, rather than guess which was meant.
+ */
+function isSendAudioOptions(
+  value: AudioInputFormat | SendAudioOptions | undefined
+): value is SendAudioOptions {
+  if (value === undefined) return false;
+  const isFormat = "encoding" in value || "sampleRate" in value || "channels" in value;
+  const isOptions = "format" in value || "signal" in value;
+  if (isFormat && isOptions) {
+    throw new STTError(
+      "sendAudio takes a format or options, not both: pass { format: { encoding, sampleRate }, signal }"
+    );
+  }
+  return isOptions;
+}
@@ -0,0 +1,674 @@
+/**
+ * In-process stand-in for the dTelecom STT server, for offline tests.
+ *
+ * Implements `/health`, `/pricing`, `/v1/session`, `/v1/session/extend`
+ * (with x402 v2 `402` challenges verified against EIP-3009 signatures) and
+ * the `/v1/stream` WebSocket protocol. Transcripts and failures are
+ * scriptable. Import from `@dtelecom/stt/testing`.
+ *
+ * Payments are verified offline, so use an EVM key such as
+ * `TEST_EVM_PRIVATE_KEY`; Solana payment creation needs a live RPC.
+ */
+
+import { randomBytes, randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { recoverTypedDataAddress } from "viem";
+import { WebSocketServer } from "ws";
+import type WebSocket from "ws";
+
+import { BYTES_PER_SECOND } from "./audio.js";
+import { LANGUAGES } from "./languages.js";
+
+/** Well-known Hardhat/Anvil account #0 key. Never holds real funds. */
+export const TEST_EVM_PRIVATE_KEY =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+/** USDC on Base Sepolia, used in the mock's payment requirements. */
+const TEST_USDC_ASSET = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const TEST_PAY_TO = "0x000000000000000000000000000000000000dEaD";
+const TEST_NETWORK = "eip155:84532";
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+/** A scripted transcription, sent once enough audio has been received. */
+export interface MockTranscript {
+  text: string;
+  /** Send after this many seconds of audio have arrived (default 0). */
+  atSecond?: number;
+  start?: number;
+  end?: number;
+  confidence?: number;
+  isFinal?: boolean;
+}
+
+/** HTTP routes that support failure injection. */
+export type MockRoute = "health" | "pricing" | "session" | "extend";
+
+/** A canned HTTP failure returned instead of the normal response. */
+export interface MockFailure {
+  status: number;
+  body?: unknown;
+}
+
+export interface MockSTTServerOptions {
+  /** Port to listen on (default: random free port). */
+  port?: number;
+  pricePerMinuteUsd?: number;
+  minMinutes?: number;
+  maxMinutes?: number;
+  /** CAIP-2 network advertised in pricing and 402 challenges. */
+  network?: string;
+  /** Require x402 payment for session purchases (default true). */
+  requirePayment?: boolean;
+  /** Send `session_expiring` when remaining time drops below this (default 60). */
+  expiringThresholdSeconds?: number;
+  /** Transcriptions sent on every stream, in order. */
+  transcripts?: MockTranscript[];
+  /** Language codes accepted on purchase and in stream configs (default: `LANGUAGES`). */
+  languages?: string[];
+}
+
+/** Server-side state for one purchased session. */
+export interface MockSession {
+  sessionId: string;
+  sessionKey: string;
+  language: string;
+  minutes: number;
+  remainingSeconds: number;
+  /** Audio seconds received over all connections. */
+  audioSeconds: number;
+  /** Byte length of each binary audio message, over all connections. */
+  packetSizes: number[];
+  /** Payer addresses recovered from each payment. */
+  payers: string[];
+  expired: boolean;
+  expiringSent: boolean;
+}
+
+/** One HTTP request seen by the mock, for assertions. */
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: unknown;
+  paid: boolean;
+}
+
+interface Connection {
+  ws: WebSocket;
+  session: MockSession | null;
+  /** Index of the next scripted transcript to send. */
+  nextTranscript: number;
+  /** Audio seconds received on this connection. */
+  audioSeconds: number;
+}
+
+/** In-process mock of the STT HTTP and WebSocket API. */
+export class MockSTTServer {
+  /** Base URL, e.g. `http://127.0.0.1:54321`; pass as `STTClient` `url`. */
+  readonly url: string;
+  /** Sessions by id. */
+  readonly sessions = new Map<string, MockSession>();
+  /** Every HTTP request received, oldest first. */
+  readonly requests: MockRequest[] = [];
+  /** Every text message received over WebSockets, oldest first. */
+  readonly messages: Record<string, unknown>[] = [];
+
+  private _options: Required<Omit<MockSTTServerOptions, "port">>;
+  private _http: Server;
+  private _wss: WebSocketServer;
+  private _connections = new Set<Connection>();
+  private _failures = new Map<MockRoute, MockFailure[]>();
+  private _drops = new Map<MockRoute, number>();
+  private _delays = new Map<MockRoute, number[]>();
+  /** Responses that were dropped after the request was handled. */
+  private _dropping = new WeakSet<ServerResponse>();
+  /** Paid answers by route and idempotency key, replayed to retries. */
+  private _idempotent = new Map<string, { body: unknown; paymentResponse?: string }>();
+  private _rejectConnections = 0;
+
+  private constructor(http: Server, wss: WebSocketServer, options: MockSTTServerOptions) {
+    this._http = http;
+    this._wss = wss;
+    this._options = {
+      pricePerMinuteUsd: options.pricePerMinuteUsd ?? 0.005,
+      minMinutes: options.minMinutes ?? 1,
+      maxMinutes: options.maxMinutes ?? 120,
+      network: options.network ?? TEST_NETWORK,
+      requirePayment: options.requirePayment ?? true,
+      expiringThresholdSeconds: options.expiringThresholdSeconds ?? 60,
+      transcripts: options.transcripts ?? [],
+      languages: options.languages ?? [...LANGUAGES],
+    };
+    const { port } = http.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+  }
+
+  /** Start listening on 127.0.0.1. */
+  static async start(options: MockSTTServerOptions = {}): Promise<MockSTTServer> {
+    const http = createServer();
+    const wss = new WebSocketServer({ noServer: true });
+    await new Promise<void>((resolve, reject) => {
+      http.once("error", reject);
+      http.listen(options.port ?? 0, "127.0.0.1", () => resolve());
+    });
+
+    const server = new MockSTTServer(http, wss, options);
+    http.on("request", (req, res) => {
+      server._onRequest(req, res).catch((e) => {
+        server._json(res, 500, { message: String(e) });
+      });
+    });
+    http.on("upgrade", (req, socket, head) => {
+      if (req.url !== "/v1/stream" || server._rejectConnections > 0) {
+        if (server._rejectConnections > 0) server._rejectConnections--;
+        socket.end("HTTP/1.1 503 Service Unavailable\r\n\r\n");
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => server._onConnection(ws));
+    });
+    return server;
+  }
+
+  /** Stop the server and drop every connection. */
+  async close(): Promise<void> {
+    for (const conn of this._connections) conn.ws.terminate();
+    this._connections.clear();
+    await new Promise<void>((resolve) => this._wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this._http.close(() => resolve()));
+  }
+
+  // ── Failure injection ─────────────────────────────────────────────
+
+  /**
+   * Answer the next request to `route` with `failure` instead. Queues.
+   * For paid routes the failure answers the request carrying the payment.
+   */
+  failNext(route: MockRoute, failure: MockFailure): void {
+    const queue = this._failures.get(route) ?? [];
+    queue.push(failure);
+    this._failures.set(route, queue);
+  }
+
+  /**
+   * Handle the next request to `route` (for paid routes, the one carrying
+   * the payment), then drop the connection instead of answering, as a
+   * network failure after the server acted would. Queues.
+   */
+  dropNext(route: MockRoute): void {
+    this._drops.set(route, (this._drops.get(route) ?? 0) + 1);
+  }
+
+  /** Wait `ms` before handling the next request to `route`. Queues. */
+  delayNext(route: MockRoute, ms: number): void {
+    const queue = this._delays.get(route) ?? [];
+    queue.push(ms);
+    this._delays.set(route, queue);
+  }
+
+  /** Refuse the next `count` WebSocket handshakes with HTTP 503. */
+  rejectConnections(count = 1): void {
+    this._rejectConnections += count;
+  }
+
+  /** Abruptly terminate every open stream, as a network drop would. */
+  dropConnections(): void {
+    for (const conn of this._connections) conn.ws.terminate();
+  }
+
+  /** Send a raw message to every stream of a session (or all streams). */
+  send(message: Record<string, unknown>, sessionId?: string): void {
+    for (const conn of this._connections) {
+      if (sessionId === undefined || conn.session?.sessionId === sessionId) {
+        conn.ws.send(JSON.stringify(message));
+      }
+    }
+  }
+
+  /** Send `session_expiring` with the session's remaining time. */
+  sendExpiring(sessionId: string): void {
+    const session = this._session(sessionId);
+    this.send({ type: "session_expiring", remaining_seconds: session.remainingSeconds }, sessionId);
+  }
+
+  /** Expire a session now: send `session_expired` and close its streams. */
+  expire(sessionId: string): void {
+    const session = this._session(sessionId);
+    session.remainingSeconds = 0;
+    session.expired = true;
+    for (const conn of this._connections) {
+      if (conn.session === session) {
+        conn.ws.send(JSON.stringify({ type: "session_expired" }));
+        conn.ws.close();
+      }
+    }
+  }
+
+  // ── HTTP ──────────────────────────────────────────────────────────
+
+  private async _onRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? "/").split("?")[0];
+    const body = req.method === "POST" ? await readJson(req) : undefined;
+    const paymentHeader = req.headers["payment-signature"];
+    this.requests.push({
+      method: req.method ?? "GET",
+      path,
+      body,
+      paid: typeof paymentHeader === "string",
+    });
+
+    const route = routeFor(req.method, path);
+    if (!route) {
+      this._json(res, 404, { message: "Not found" });
+      return;
+    }
+    const delayMs = this._delays.get(route)?.shift();
+    if (delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    // A retry of a paid request that succeeded gets the same answer, unpaid
+    const idempotencyKey = req.headers["idempotency-key"];
+    const replay =
+      typeof idempotencyKey === "string"
+        ? this._idempotent.get(`${route} ${idempotencyKey}`)
+        : undefined;
+    if (replay) {
+      if (replay.paymentResponse) res.setHeader("PAYMENT-RESPONSE", replay.paymentResponse);
+      this._json(res, 200, replay.body);
+      return;
+    }
+
+    // Paid routes fail the paid retry, after the client saw the 402 challenge
+    const awaitingChallenge =
+      (route === "session" || route === "extend") &&
+      this._options.requirePayment &&
+      typeof paymentHeader !== "string";
+    const failure = awaitingChallenge ? undefined : this._failures.get(route)?.shift();
+    if (failure) {
+      this._json(res, failure.status, failure.body ?? { message: "Injected failure" });
+      return;
+    }
+    const drops = awaitingChallenge ? 0 : this._drops.get(route) ?? 0;
+    if (drops > 0) {
+      this._drops.set(route, drops - 1);
+      this._dropping.add(res);
+    }
+
+    switch (route) {
+      case "health":
+        this._json(res, 200, { status: "ok", sessions: this.sessions.size });
+        return;
+      case "pricing":
+        this._json(res, 200, this._pricing());
+        return;
+      case "session":
+        await this._createSession(req, res, body as Record<string, unknown>);
+        return;
+      case "extend":
+        await this._extendSession(req, res, body as Record<string, unknown>);
+        return;
+    }
+  }
+
+  private _pricing(): Record<string, unknown> {
+    const { pricePerMinuteUsd, minMinutes, maxMinutes, network } = this._options;
+    return {
+      price_per_minute_usd: pricePerMinuteUsd,
+      min_minutes: minMinutes,
+      max_minutes: maxMinutes,
+      min_price_usd: pricePerMinuteUsd * minMinutes,
+      currency: "USDC",
+      network,
+    };
+  }
+
+  private async _createSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    const minutes = Number(body?.minutes);
+    const { minMinutes, maxMinutes } = this._options;
+    if (!Number.isFinite(minutes) || minutes < minMinutes || minutes > maxMinutes) {
+      this._json(res, 400, { message: `minutes must be between ${minMinutes} and ${maxMinutes}` });
+      return;
+    }
+    const language = (body.language as string) ?? "en";
+    if (!this._options.languages.includes(language)) {
+      this._json(res, 400, { message: `Unsupported language: ${language}` });
+      return;
+    }
+
+    const payer = await this._charge(req, res, minutes, "/v1/session");
+    if (payer === null) return;
+
+    const session: MockSession = {
+      sessionId: randomUUID(),
+      sessionKey: randomBytes(24).toString("hex"),
+      language,
+      minutes,
+      remainingSeconds: minutes * 60,
+      audioSeconds: 0,
+      packetSizes: [],
+      payers: payer ? [payer] : [],
+      expired: false,
+      expiringSent: false,
+    };
+    this.sessions.set(session.sessionId, session);
+
+    this._answerPaid(req, res, "session", {
+      session_id: session.sessionId,
+      session_key: session.sessionKey,
+      ws_url: `${this.url.replace("http://", "ws://")}/v1/stream`,
+      remaining_seconds: session.remainingSeconds,
+      minutes,
+      price_usd: this._price(minutes).toFixed(6),
+    });
+  }
+
+  private async _extendSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    const session = this.sessions.get(body?.session_id as string);
+    if (!session || session.expired) {
+      this._json(res, 404, { message: "Unknown or expired session" });
+      return;
+    }
+    const minutes = Number(body.minutes ?? 5);
+
+    const payer = await this._charge(req, res, minutes, "/v1/session/extend");
+    if (payer === null) return;
+
+    if (payer) session.payers.push(payer);
+    session.minutes += minutes;
+    session.remainingSeconds += minutes * 60;
+    session.expiringSent = false;
+    this.send(
+      { type: "session_extended", remaining_seconds: session.remainingSeconds },
+      session.sessionId
+    );
+
+    this._answerPaid(req, res, "extend", {
+      session_id: session.sessionId,
+      minutes_added: minutes,
+      remaining_seconds: session.remainingSeconds,
+      price_usd: this._price(minutes).toFixed(6),
+    });
+  }
+
+  /**
+   * Run the x402 exchange for a paid request. Returns the payer address
+   * ("" when payment is disabled), or null after answering with 402.
+   */
+  private async _charge(
+    req: IncomingMessage,
+    res: ServerResponse,
+    minutes: number,
+    resource: string
+  ): Promise<string | null> {
+    if (!this._options.requirePayment) return "";
+
+    const requirements = {
+      scheme: "exact",
+      network: this._options.network,
+      asset: TEST_USDC_ASSET,
+      amount: String(Math.round(this._price(minutes) * 1e6)),
+      payTo: TEST_PAY_TO,
+      maxTimeoutSeconds: 300,
+      extra: { name: "USDC", version: "2" },
+    };
+    const challenge = {
+      x402Version: 2,
+      resource: { url: `${this.url}${resource}`, description: "dTelecom STT", mimeType: "application/json" },
+      accepts: [requirements],
+    };
+
+    const header = req.headers["payment-signature"];
+    if (typeof header !== "string") {
+      this._paymentRequired(res, challenge, "Payment required");
+      return null;
+    }
+
+    let payer: string;
+    try {
+      payer = await verifyPayment(header, requirements);
+    } catch (e) {
+      this._paymentRequired(res, challenge, `Invalid payment: ${(e as Error).message}`);
+      return null;
+    }
+
+    const settlement = {
+      success: true,
+      transaction: `0x${randomBytes(32).toString("hex")}`,
+      network: requirements.network,
+      payer,
+    };
+    res.setHeader("PAYMENT-RESPONSE", encodeBase64Json(settlement));
+    return payer;
+  }
+
+  /** Answer a paid request, remembering the answer for retries with its idempotency key. */
+  private _answerPaid(
+    req: IncomingMessage,
+    res: ServerResponse,
+    route: MockRoute,
+    body: Record<string, unknown>
+  ): void {
+    const key = req.headers["idempotency-key"];
+    if (typeof key === "string") {
+      const paymentResponse = res.getHeader("PAYMENT-RESPONSE");
+      this._idempotent.set(`${route} ${key}`, {
+        body,
+        paymentResponse: typeof paymentResponse === "string" ? paymentResponse : undefined,
+      });
+    }
+    this._json(res, 200, body);
+  }
+
+  private _paymentRequired(
+    res: ServerResponse,
+    challenge: Record<string, unknown>,
+    message: string
+  ): void {
+    res.setHeader("PAYMENT-REQUIRED", encodeBase64Json({ ...challenge, error: message }));
+    this._json(res, 402, { message });
+  }
+
+  private _price(minutes: number): number {
+    return minutes * this._options.pricePerMinuteUsd;
+  }
+
+  private _json(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) return;
+    if (this._dropping.has(res)) {
+      res.destroy();
+      return;
+    }
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  }
+
+  private _session(sessionId: string): MockSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Unknown mock session: ${sessionId}`);
+    return session;
+  }
+
+  // ── WebSocket ─────────────────────────────────────────────────────
+
+  private _onConnection(ws: WebSocket): void {
+    const conn: Connection = { ws, session: null, nextTranscript: 0, audioSeconds: 0 };
+    this._connections.add(conn);
+    ws.on("close", () => this._connections.delete(conn));
+    ws.on("message", (data, isBinary) => {
+      if (isBinary) {
+        this._onAudio(conn, (data as Buffer).length);
+        return;
+      }
+      let msg: Record<string, unknown>;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        ws.send(JSON.stringify({ type: "error", message: "Invalid JSON" }));
+        return;
+      }
+      this.messages.push(msg);
+      if (msg.type === "config") this._onConfig(conn, msg);
+    });
+  }
+
+  private _onConfig(conn: Connection, msg: Record<string, unknown>): void {
+    if (conn.session) {
+      // Reconfiguring an open stream: confirmed with ready, like the first config
+      const language = (msg.language as string) ?? conn.session.language;
+      if (!this._options.languages.includes(language)) {
+        conn.ws.send(JSON.stringify({
+          type: "error",
+          code: "unsupported_language",
+          message: `Unsupported language: ${language}`,
+        }));
+        return;
+      }
+      conn.session.language = language;
+      conn.ws.send(
+        JSON.stringify({ type: "ready", remaining_seconds: conn.session.remainingSeconds })
+      );
+      return;
+    }
+
+    const session = [...this.sessions.values()].find(
+      (s) => s.sessionKey === msg.session_key
+    );
+    if (!session || session.expired) {
+      conn.ws.send(JSON.stringify({ type: "error", message: "Invalid or expired session key" }));
+      conn.ws.close();
+      return;
+    }
+    conn.session = session;
+    if (typeof msg.language === "string") session.language = msg.language;
+    conn.ws.send(JSON.stringify({ type: "ready", remaining_seconds: session.remainingSeconds }));
+  }
+
+  private _onAudio(conn: Connection, bytes: number): void {
+    const session = conn.session;
+    if (!session || session.expired) return;
+
+    const seconds = bytes / BYTES_PER_SECOND;
+    conn.audioSeconds += seconds;
+    session.audioSeconds += seconds;
+    session.packetSizes.push(bytes);
+    session.remainingSeconds = Math.max(0, session.remainingSeconds - seconds);
+
+    const script = this._options.transcripts;
+    while (
+      conn.nextTranscript < script.length &&
+      (script[conn.nextTranscript].atSecond ?? 0) <= conn.audioSeconds
+    ) {
+      const t = script[conn.nextTranscript++];
+      conn.ws.send(JSON.stringify({
+        type: "transcription",
+        text: t.text,
+        start: t.start,
+        end: t.end,
+        confidence: t.confidence,
+        is_final: t.isFinal ?? true,
+      }));
+    }
+
+    if (session.remainingSeconds <= 0) {
+      this.expire(session.sessionId);
+    } else if (
+      !session.expiringSent &&
+      session.remainingSeconds <= this._options.expiringThresholdSeconds
+    ) {
+      session.expiringSent = true;
+      this.sendExpiring(session.sessionId);
+    }
+  }
+}
+
+function routeFor(method: string | undefined, path: string): MockRoute | null {
+  if (method === "GET" && path === "/health") return "health";
+  if (method === "GET" && path === "/pricing") return "pricing";
+  if (method === "POST" && path === "/v1/session") return "session";
+  if (method === "POST" && path === "/v1/session/extend") return "extend";
+  return null;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
+
+function encodeBase64Json(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), "utf8").toString("base64");
+}
+
+/**
+ * Check an x402 v2 `exact` EVM payment against the requirements and
+ * recover the payer from its EIP-3009 signature.
+ */
+async function verifyPayment(
+  header: string,
+  requirements: { network: string; asset: string; amount: string; payTo: string; extra: { name: string; version: string } }
+): Promise<string> {
+  const payment = JSON.parse(Buffer.from(header, "base64").toString("utf8")) as {
+    x402Version?: number;
+    payload?: {
+      authorization?: Record<string, string>;
+      signature?: `0x${string}`;
+    };
+  };
+  if (payment.x402Version !== 2) throw new Error("unsupported x402 version");
+
+  const auth = payment.payload?.authorization;
+  const signature = payment.payload?.signature;
+  if (!auth || !signature) throw new Error("missing authorization");
+  if (auth.value !== requirements.amount) throw new Error("wrong amount");
+  if (auth.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+    throw new Error("wrong recipient");
+  }
+
+  const payer = await recoverTypedDataAddress({
+    domain: {
+      name: requirements.extra.name,
+      version: requirements.extra.version,
+      chainId: Number(requirements.network.split(":")[1]),
+      verifyingContract: requirements.asset as `0x${string}`,
+    },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: "TransferWithAuthorization",
+    message: {
+      from: auth.from as `0x${string}`,
+      to: auth.to as `0x${string}`,
+      value: BigInt(auth.value),
+      validAfter: BigInt(auth.validAfter),
+      validBefore: BigInt(auth.validBefore),
+      nonce: auth.nonce as `0x${string}`,
+    },
+    signature,
+  });
+  if (payer.toLowerCase() !== auth.from.toLowerCase()) {
+    throw new Error("signature does not match payer");
+  }
+  return payer;
+}
@@ -0,0 +1,236 @@
+import type { Transcription } from "./types.js";
+
+/** Reading speed used to estimate a missing segment end, in chars/second. */
+const ESTIMATED_CHARS_PER_SECOND = 15;
+
+/** A final transcription with resolved timing. */
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  /** Source channel, for results of `transcribeChannels()`. */
+  channel?: number;
+  speaker?: string;
+}
+
+/** Serializable transcript produced by `TranscriptBuilder.toJSON()`. */
+export interface TranscriptDocument {
+  text: string;
+  /** End of the last segment, in seconds. */
+  duration: number;
+  segments: TranscriptSegment[];
+}
+
+/** Line and cue constraints for subtitle export. */
+export interface SubtitleOptions {
+  /** Maximum characters per line (default 42). */
+  maxLineLength?: number;
+  /** Maximum lines per cue (default 2). */
+  maxLines?: number;
+  /** Longest a single cue may stay on screen, in seconds (default 7). */
+  maxCueDuration?: number;
+}
+
+export type TranscriptFormat = "srt" | "vtt" | "json" | "txt";
+
+interface Cue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Assembles a canonical transcript from streamed `Transcription`s.
+ * Interim results replace each other until a final arrives; finals are
+ * kept ordered by `start`. Export with `toSRT()`, `toVTT()`, `toJSON()`
+ * or `toText()`.
+ */
+export class TranscriptBuilder {
+  private _segments: TranscriptSegment[] = [];
+  private _interim: Transcription | null = null;
+
+  /** Collect every transcription from an iterator into a finished builder. */
+  static async collect(
+    transcriptions: AsyncIterable<Transcription>
+  ): Promise<TranscriptBuilder> {
+    const builder = new TranscriptBuilder();
+    for await (const t of transcriptions) builder.add(t);
+    return builder;
+  }
+
+  /** Subscribe to a stream's transcriptions. Returns `this` for chaining. */
+  attach(stream: { onTranscription(cb: (t: Transcription) => void): void }): this {
+    stream.onTranscription((t) => this.add(t));
+    return this;
+  }
+
+  /** Add one transcription. Interim results are held until replaced. */
+  add(t: Transcription): void {
+    if (!t.isFinal) {
+      this._interim = t;
+      return;
+    }
+    this._interim = null;
+
+    const text = t.text.trim();
+    if (!text) return;
+
+    const prevEnd = this._segments.length > 0
+      ? this._segments[this._segments.length - 1].end
+      : 0;
+    const start = t.start ?? prevEnd;
+    const end = t.end ?? start + text.length / ESTIMATED_CHARS_PER_SECOND;
+    const segment: TranscriptSegment = { text, start, end: Math.max(end, start) };
+    if (t.confidence !== undefined) segment.confidence = t.confidence;
+    if (t.channel !== undefined) segment.channel = t.channel;
+    if (t.speaker !== undefined) segment.speaker = t.speaker;
+
+    // Keep ordered by start; equal starts stay in arrival order
+    let i = this._segments.length;
+    while (i > 0 && this._segments[i - 1].start > start) i--;
+    this._segments.splice(i, 0, segment);
+  }
+
+  /** Final segments in timeline order. */
+  get segments(): readonly TranscriptSegment[] {
+    return this._segments;
+  }
+
+  /** Latest interim result not yet replaced by a final, if any. */
+  get interim(): Transcription | null {
+    return this._interim;
+  }
+
+  /** Final text joined with spaces. */
+  toText(): string {
+    return this._segments.map((s) => s.text).join(" ");
+  }
+
+  toJSON(): TranscriptDocument {
+    const last = this._segments[this._segments.length - 1];
+    return {
+      text: this.toText(),
+      duration: last ? last.end : 0,
+      segments: this._segments.map((s) => ({ ...s })),
+    };
+  }
+
+  /** SubRip (.srt) subtitles. */
+  toSRT(options?: SubtitleOptions): string {
+    return this._cues(options)
+      .map((cue, i) =>
+        `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.lines.join("\n")}\n`
+      )
+      .join("\n");
+  }
+
+  /** WebVTT (.vtt) subtitles. */
+  toVTT(options?: SubtitleOptions): string {
+    const cues = this._cues(options).map((cue) =>
+      `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.lines.map(escapeVtt).join("\n")}\n`
+    );
+    return ["WEBVTT\n", ...cues].join("\n");
+  }
+
+  /** Export in one of the supported formats. */
+  format(format: TranscriptFormat, options?: SubtitleOptions): string {
+    switch (format) {
+      case "srt":
+        return this.toSRT(options);
+      case "vtt":
+        return this.toVTT(options);
+      case "json":
+        return JSON.stringify(this.toJSON(), null, 2) + "\n";
+      case "txt":
+        return this.toText() + "\n";
+    }
+  }
+
+  /**
+   * Split segments into cues of at most `maxLines` wrapped lines. A
+   * segment's time is shared between its cues by text length, and cues
+   * longer than `maxCueDuration` are split further.
+   */
+  private _cues(options?: SubtitleOptions): Cue[] {
+    const maxLineLength = options?.maxLineLength ?? 42;
+    const maxLines = options?.maxLines ?? 2;
+    const maxCueDuration = options?.maxCueDuration ?? 7;
+    const cues: Cue[] = [];
+
+    for (const seg of this._segments) {
+      const lines = wrapLines(seg.text, maxLineLength);
+      const totalChars = lines.reduce((n, l) => n + l.length, 0);
+      const duration = seg.end - seg.start;
+      let t = seg.start;
+      for (let i = 0; i < lines.length; i += maxLines) {
+        const group = lines.slice(i, i + maxLines);
+        const chars = group.reduce((n, l) => n + l.length, 0);
+        const end = t + duration * chars / totalChars;
+        splitCue(cues, group.join(" ").split(" "), t, end, maxLineLength, maxCueDuration);
+        t = end;
+      }
+    }
+    return cues;
+  }
+}
+
+/**
+ * Add a cue showing `words` from `start` to `end`, halving it by words,
+ * with time shared by length, until no part is longer than `maxDuration`.
+ * A single word is cut short instead.
+ */
+function splitCue(
+  cues: Cue[],
+  words: string[],
+  start: number,
+  end: number,
+  maxLineLength: number,
+  maxDuration: number
+): void {
+  if (end - start <= maxDuration || words.length === 1) {
+    const lines = wrapLines(words.join(" "), maxLineLength);
+    cues.push({ start, end: Math.min(end, start + maxDuration), lines });
+    return;
+  }
+  const first = words.slice(0, Math.ceil(words.length / 2));
+  const rest = words.slice(first.length);
+  const chars = (part: string[]) => part.reduce((n, w) => n + w.length, 0);
+  const middle = start + (end - start) * chars(first) / chars(words);
+  splitCue(cues, first, start, middle, maxLineLength, maxDuration);
+  splitCue(cues, rest, middle, end, maxLineLength, maxDuration);
+}
+
+/** Greedy word wrap; words longer than the limit get a line of their own. */
+function wrapLines(text: string, maxLength: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/)) {
+    if (!word) continue;
+    if (line && line.length + 1 + word.length > maxLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/** Format seconds as HH:MM:SS<sep>mmm. */
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+}
+
+/** Escape characters that WebVTT cue text treats as markup. */
+function escapeVtt(line: string): string {
+  return line.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
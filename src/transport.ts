@@ -0,0 +1,49 @@
+import NodeWebSocket from "ws";
+
+import { ConnectionError } from "./errors.js";
+
+/** `readyState` of an open socket, as in the WHATWG WebSocket API. */
+export const SOCKET_OPEN = 1;
+
+/**
+ * The parts of the WHATWG `WebSocket` API a stream uses. Satisfied by the
+ * global `WebSocket` of browsers, Deno, Bun and Node 22+, and by the `ws`
+ * package.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  readonly bufferedAmount: number;
+  binaryType: string;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string | Uint8Array): void;
+  close(): void;
+}
+
+/** Opens a socket to `url`; see `STTClientOptions.webSocket`. */
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+interface WebSocketConstructor {
+  new (url: string): WebSocketLike;
+}
+
+/**
+ * @internal Opens a socket with the global `WebSocket` if the runtime has
+ * one, else the `ws` package. Bundlers stub `ws` out for browsers (see
+ * `browser` in package.json), so it is checked before use.
+ */
+export const defaultWebSocket: WebSocketFactory = (url) => {
+  const ctor =
+    (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket ??
+    (typeof NodeWebSocket === "function"
+      ? (NodeWebSocket as unknown as WebSocketConstructor)
+      : undefined);
+  if (!ctor) {
+    throw new ConnectionError(
+      "No WebSocket implementation: install the ws package or pass webSocket"
+    );
+  }
+  return new ctor(url);
+};
@@ -1,3 +1,10 @@
+import type {
+  BudgetExhaustedError,
+  ConnectionError,
+  STTError,
+} from "./errors.js";
+import type { Language } from "./languages.js";
+
 /** A transcription result from the STT server. */
 export interface Transcription {
   text: string;
@@ -5,6 +12,23 @@ export interface Transcription {
   end?: number;
   confidence?: number;
   isFinal: boolean;
+  /** Source channel, set by `transcribeChannels()`. */
+  channel?: number;
+  /** Speaker label of the source channel, set by `transcribeChannels()`. */
+  speaker?: string;
+}
+
+/** On-chain settlement of one x402 payment, from the server's payment response. */
+export interface PaymentReceipt {
+  /** CAIP-2 network the payment settled on. */
+  network: string;
+  /** Paying address, when the server reports it. */
+  payer: string | null;
+  /** Transaction hash (EVM) or signature (Solana) of the settlement. */
+  transactionHash: string;
+  amountUsd: number;
+  /** When the client received the settlement. */
+  settledAt: Date;
 }
 
 /** Info returned when a session is created. */
@@ -15,6 +39,48 @@ export interface SessionInfo {
   remainingSeconds: number;
   minutes: number;
   priceUsd: string;
+  /** Settlement of the purchase; null if the server sent none. */
+  receipt: PaymentReceipt | null;
+}
+
+/** Result of buying more time for a session. */
+export interface ExtendResult {
+  sessionId: string;
+  minutesAdded: number;
+  remainingSeconds: number;
+  priceUsd: string;
+  /** Settlement of the extension; null if the server sent none. */
+  receipt: PaymentReceipt | null;
+}
+
+/**
+ * A paid session exported with `Stream.exportSession()`, for reopening
+ * with `STTClient.resumeSession()` after a restart. JSON-safe; the
+ * `sessionKey` grants use of the minutes, so store it like a credential.
+ */
+export interface SessionHandle {
+  sessionId: string;
+  sessionKey: string;
+  language: Language;
+  /** Seconds left when exported, as last reported by the server less audio sent since. */
+  remainingSeconds: number;
+  /** ISO 8601 time of the export. */
+  exportedAt: string;
+}
+
+/** What a stream has sent and paid for so far; see `Stream.usage`. */
+export interface StreamUsage {
+  sessionId: string;
+  /** Audio sent on this stream, counted from bytes; silence dropped by `vad` is not sent. */
+  audioSeconds: number;
+  /** Time left: the server's last report less audio sent since. */
+  remainingSeconds: number;
+  /** Time left as last reported by the server. */
+  serverRemainingSeconds: number;
+  /** Minutes this stream bought: the purchase (none when resumed) and auto-extensions. */
+  minutesPurchased: number;
+  /** USD paid for `minutesPurchased`. */
+  spentUsd: number;
 }
 
 /** Pricing information from the server. */
@@ -27,6 +93,109 @@ export interface PricingInfo {
   network: string;
 }
 
+/** Cost of transcribing audio of a given length, from `estimateCost()`. */
+export interface CostEstimate {
+  durationSeconds: number;
+  /** Minutes needed to cover the audio, before server limits. */
+  requiredMinutes: number;
+  /** Minutes to buy up front: required, clamped to the server's min and max. */
+  minutes: number;
+  /** Price of the up-front purchase. */
+  priceUsd: number;
+  /** Price of all the minutes needed, including extensions. */
+  totalPriceUsd: number;
+  pricePerMinuteUsd: number;
+  /** True when the audio is longer than one session can hold. */
+  needsExtension: boolean;
+}
+
+/** Payload of the `ready` event emitted by `Stream`. */
+export interface ReadyEvent {
+  sessionId: string;
+  /** Seconds left on the session, as reported by the server. */
+  remainingSeconds: number;
+  /** True when this ready follows a reconnect. */
+  reconnected: boolean;
+}
+
+/** Payload of the `expiring` event emitted by `Stream`. */
+export interface ExpiringEvent {
+  sessionId: string;
+  remainingSeconds: number;
+  /** Whether the stream is about to buy more time automatically. */
+  willAutoExtend: boolean;
+}
+
+/** Payload of the `extended` event emitted by `Stream`. */
+export interface ExtendedEvent {
+  sessionId: string;
+  remainingSeconds: number;
+}
+
+/** Payload of the `extendFailed` event emitted by `Stream`. */
+export interface ExtendFailedEvent {
+  sessionId: string;
+  error: Error;
+}
+
+/** Payload of the `expired` event emitted by `Stream`. */
+export interface ExpiredEvent {
+  sessionId: string;
+}
+
+/** Payload of the `serverError` event emitted by `Stream`. */
+export interface ServerErrorEvent {
+  sessionId: string;
+  message: string;
+  /** The raw server message. */
+  raw: Record<string, unknown>;
+}
+
+/** Payload of the `closed` event emitted by `Stream`. */
+export interface ClosedEvent {
+  sessionId: string;
+  /**
+   * `client` for `close()`, `expired` when time ran out, `connection` when
+   * the socket was lost, `aborted` when an `AbortSignal` cancelled it.
+   */
+  reason: "client" | "expired" | "connection" | "aborted";
+  /** Set when the stream ended abnormally; also thrown by `transcriptions()`. */
+  error?: STTError;
+}
+
+/** Payload of the `reconnecting` event emitted by `Stream`. */
+export interface ReconnectingEvent {
+  /** 1-based reconnect attempt number. */
+  attempt: number;
+  /** Backoff delay before this attempt, in milliseconds. */
+  delayMs: number;
+}
+
+/** Payload of the `reconnected` event emitted by `Stream`. */
+export interface ReconnectedEvent {
+  /** Number of attempts it took to reconnect. */
+  attempts: number;
+  /** Buffered audio bytes replayed after the session resumed. */
+  replayedBytes: number;
+}
+
+/** Events emitted by `Stream`, keyed by name with their listener arguments. */
+export interface StreamEvents {
+  ready: [ReadyEvent];
+  expiring: [ExpiringEvent];
+  extended: [ExtendedEvent];
+  extendFailed: [ExtendFailedEvent];
+  budgetExhausted: [BudgetExhaustedError];
+  expired: [ExpiredEvent];
+  serverError: [ServerErrorEvent];
+  closed: [ClosedEvent];
+  reconnecting: [ReconnectingEvent];
+  reconnected: [ReconnectedEvent];
+  reconnectFailed: [ConnectionError];
+  /** Sent audio, the server's remaining time or purchases changed. */
+  usage: [StreamUsage];
+}
+
 /** Parse a server JSON message into a Transcription. */
 export function transcriptionFromMessage(msg: Record<string, unknown>): Transcription {
   return {
@@ -0,0 +1,230 @@
+import { SAMPLE_RATE, SAMPLE_WIDTH } from "./audio.js";
+import { EMPTY_BYTES, concatBytes, copyBytes, dataView } from "./bytes.js";
+import { STTError } from "./errors.js";
+
+/** Client-side voice activity detection settings. */
+export interface VadOptions {
+  /** RMS level, as a fraction of full scale, that counts as speech (default 0.01, about -40 dBFS). */
+  energyThreshold?: number;
+  /**
+   * Zero crossings per sample above which a quieter frame (down to a
+   * quarter of `energyThreshold`) still counts as speech, to keep
+   * fricatives like "s" and "f" (default 0.25).
+   */
+  zeroCrossingThreshold?: number;
+  /** Analysis frame length in ms (default 20). */
+  frameMs?: number;
+  /** Audio kept after speech stops, so word endings are not clipped (default 300). */
+  hangoverMs?: number;
+  /** Audio kept before speech starts, so word onsets are not clipped (default 200). */
+  prerollMs?: number;
+  /**
+   * Silence left in place of each dropped span, so the server still sees
+   * pauses between utterances (default 200). 0 drops silence entirely.
+   */
+  gapMs?: number;
+}
+
+/** How much audio voice activity detection kept and dropped. */
+export interface VadStats {
+  /** Seconds of audio given to the detector. */
+  inputSeconds: number;
+  /** Seconds of audio sent to the server. */
+  sentSeconds: number;
+  /** Seconds of silence not sent, and not paid for. */
+  savedSeconds: number;
+}
+
+/** A run of kept input audio and where it landed in the output, in samples. */
+interface Span {
+  outStart: number;
+  inStart: number;
+  length: number;
+}
+
+interface Frame {
+  data: Uint8Array;
+  inStart: number;
+}
+
+/**
+ * Drops silence from PCM16 16kHz mono audio before it is sent.
+ *
+ * Frames are classified by energy, with a zero-crossing test for quiet
+ * unvoiced speech. Speech is padded with `prerollMs` before and
+ * `hangoverMs` after, and each silent span shrinks to `gapMs`. Kept audio
+ * is tracked so server timestamps can be mapped back to the input with
+ * `toOriginalTime()`.
+ */
+export class VoiceActivityDetector {
+  private _energyThreshold: number;
+  private _zcrThreshold: number;
+  private _frameBytes: number;
+  private _hangoverFrames: number;
+  private _prerollFrames: number;
+  private _gapFrames: number;
+
+  private _carry = EMPTY_BYTES;
+  /** Input position of the next unprocessed frame, in samples. */
+  private _inPos = 0;
+  /** Samples emitted so far. */
+  private _outPos = 0;
+  private _speaking = false;
+  private _hangoverLeft = 0;
+  /** Silent frames emitted since speech ended; starts full so leading silence is dropped. */
+  private _gapUsed: number;
+  /** Recent dropped frames, sent as pre-roll when speech starts. */
+  private _preroll: Frame[] = [];
+  private _spans: Span[] = [];
+
+  constructor(options?: VadOptions) {
+    const frameMs = options?.frameMs ?? 20;
+    if (!(frameMs > 0)) {
+      throw new STTError(`VAD frameMs must be positive, got ${frameMs}`);
+    }
+    const frames = (ms: number) => Math.ceil(ms / frameMs);
+
+    this._energyThreshold = options?.energyThreshold ?? 0.01;
+    this._zcrThreshold = options?.zeroCrossingThreshold ?? 0.25;
+    this._frameBytes =
+      Math.max(1, Math.round((SAMPLE_RATE * frameMs) / 1000)) * SAMPLE_WIDTH;
+    this._hangoverFrames = frames(options?.hangoverMs ?? 300);
+    this._prerollFrames = frames(options?.prerollMs ?? 200);
+    this._gapFrames = frames(options?.gapMs ?? 200);
+    this._gapUsed = this._gapFrames;
+  }
+
+  /** Feed PCM16 16kHz mono audio; returns the part to send. */
+  process(pcm: Uint8Array): Uint8Array {
+    let data = this._carry.length > 0 ? concatBytes([this._carry, pcm]) : pcm;
+    const out: Uint8Array[] = [];
+
+    while (data.length >= this._frameBytes) {
+      this._frame(data.subarray(0, this._frameBytes), out);
+      data = data.subarray(this._frameBytes);
+    }
+    this._carry = copyBytes(data);
+    return out.length > 0 ? concatBytes(out) : EMPTY_BYTES;
+  }
+
+  /** End of input: returns a trailing partial frame if speech was ongoing. */
+  flush(): Uint8Array {
+    const tail = this._carry;
+    this._carry = EMPTY_BYTES;
+    this._preroll = [];
+    if (tail.length === 0) return tail;
+
+    const inStart = this._inPos;
+    this._inPos += tail.length / SAMPLE_WIDTH;
+    return this._speaking ? this._emit({ data: tail, inStart }) : EMPTY_BYTES;
+  }
+
+  /**
+   * Send audio unfiltered, such as trailing silence, keeping both
+   * timelines in step. Flushes any partial frame first.
+   */
+  passthrough(pcm: Uint8Array): Uint8Array {
+    const tail = this.flush();
+    const inStart = this._inPos;
+    this._inPos += pcm.length / SAMPLE_WIDTH;
+    this._emit({ data: pcm, inStart });
+    return tail.length > 0 ? concatBytes([tail, pcm]) : pcm;
+  }
+
+  /**
+   * Map a time in the audio sent to the server back to the input timeline.
+   * Times past the last kept audio are extrapolated from it.
+   */
+  toOriginalTime(seconds: number): number {
+    const sample = seconds * SAMPLE_RATE;
+    let lo = 0;
+    let hi = this._spans.length - 1;
+    if (hi < 0) return seconds;
+
+    // Last span starting at or before `sample`
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this._spans[mid].outStart <= sample) lo = mid;
+      else hi = mid - 1;
+    }
+    const span = this._spans[lo];
+    return (span.inStart + Math.max(0, sample - span.outStart)) / SAMPLE_RATE;
+  }
+
+  get stats(): VadStats {
+    const inputSeconds = (this._inPos + this._carry.length / SAMPLE_WIDTH) / SAMPLE_RATE;
+    const sentSeconds = this._outPos / SAMPLE_RATE;
+    return {
+      inputSeconds,
+      sentSeconds,
+      savedSeconds: Math.max(0, inputSeconds - sentSeconds),
+    };
+  }
+
+  private _frame(data: Uint8Array, out: Uint8Array[]): void {
+    const frame: Frame = { data, inStart: this._inPos };
+    this._inPos += data.length / SAMPLE_WIDTH;
+
+    if (this._isSpeech(data)) {
+      if (!this._speaking) {
+        for (const f of this._preroll) out.push(this._emit(f));
+        this._preroll = [];
+        this._speaking = true;
+      }
+      this._hangoverLeft = this._hangoverFrames;
+      out.push(this._emit(frame));
+    } else if (this._speaking && this._hangoverLeft > 0) {
+      this._hangoverLeft--;
+      out.push(this._emit(frame));
+      if (this._hangoverLeft === 0) {
+        this._speaking = false;
+        this._gapUsed = 0;
+      }
+    } else {
+      if (this._speaking) {
+        // No hangover: speech ends on the first silent frame
+        this._speaking = false;
+        this._gapUsed = 0;
+      }
+      if (this._gapUsed < this._gapFrames) {
+        this._gapUsed++;
+        out.push(this._emit(frame));
+      } else {
+        // Copied: the caller's buffer may be reused before speech resumes
+        this._preroll.push({ data: copyBytes(data), inStart: frame.inStart });
+        if (this._preroll.length > this._prerollFrames) this._preroll.shift();
+      }
+    }
+  }
+
+  /** Record a frame as sent and return its audio. */
+  private _emit(frame: Frame): Uint8Array {
+    const length = frame.data.length / SAMPLE_WIDTH;
+    const last = this._spans[this._spans.length - 1];
+    if (last && last.inStart + last.length === frame.inStart) {
+      last.length += length;
+    } else {
+      this._spans.push({ outStart: this._outPos, inStart: frame.inStart, length });
+    }
+    this._outPos += length;
+    return frame.data;
+  }
+
+  private _isSpeech(frame: Uint8Array): boolean {
+    const view = dataView(frame);
+    const n = frame.length / SAMPLE_WIDTH;
+    let sumSquares = 0;
+    let crossings = 0;
+    let prev = 0;
+    for (let i = 0; i < n; i++) {
+      const s = view.getInt16(i * SAMPLE_WIDTH, true) / 32768;
+      sumSquares += s * s;
+      if (i > 0 && (s >= 0) !== (prev >= 0)) crossings++;
+      prev = s;
+    }
+    const rms = Math.sqrt(sumSquares / n);
+    if (rms >= this._energyThreshold) return true;
+    const zcr = n > 1 ? crossings / (n - 1) : 0;
+    return rms >= this._energyThreshold / 4 && zcr >= this._zcrThreshold;
+  }
+}
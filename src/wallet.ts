@@ -0,0 +1,214 @@
+import { decodePaymentResponseHeader, x402Client } from "@x402/fetch";
+import type { PaymentPolicy, PaymentRequirements } from "@x402/fetch";
+import { registerExactEvmScheme } from "@x402/evm/exact/client";
+import type { ClientEvmSigner } from "@x402/evm";
+import { registerExactSvmScheme } from "@x402/svm/exact/client";
+import { createKeyPairSignerFromBytes } from "@solana/kit";
+import type { TransactionSigner } from "@solana/kit";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { PaymentError, STTError } from "./errors.js";
+import type { PaymentReceipt, PricingInfo } from "./types.js";
+
+/** CAIP-2 ids of the networks the service can be paid on. */
+export const NETWORKS = {
+  base: "eip155:8453",
+  baseSepolia: "eip155:84532",
+  solana: "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp",
+  solanaDevnet: "solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1",
+} as const;
+
+/** USDC has 6 decimals on every supported network. */
+const USDC_DECIMALS = 6;
+
+/**
+ * Signs EVM payments: a viem `LocalAccount`, or any object with an
+ * `address` and `signTypedData()`, e.g. one backed by a KMS, HSM or
+ * remote signing service.
+ */
+export type EvmSigner = ClientEvmSigner;
+
+/** Signs Solana payments: a `@solana/kit` `TransactionSigner`. */
+export type SolanaSigner = TransactionSigner;
+
+/** What `STTClientOptions.signer` accepts; the kind is detected at runtime. */
+export type PaymentSigner = EvmSigner | SolanaSigner | x402Client;
+
+/** Which payment requests the client signs, and with what. */
+export interface PaymentOptions {
+  /** CAIP-2 networks the client may pay on (default: any), e.g. `NETWORKS.baseSepolia`. */
+  networks?: string[];
+  /**
+   * Networks to pay on when the server offers several, most preferred
+   * first. Others keep the server's order, after these.
+   */
+  preferredNetworks?: string[];
+  /** Most USD a single payment may be for. */
+  maxPriceUsd?: number;
+  /**
+   * Signers to pay with, in addition to `privateKey` and `signer`, e.g. one
+   * EVM and one Solana wallet. Strings are private keys, detected as for
+   * `privateKey`. The client pays on the first offered network one of
+   * them supports.
+   */
+  signers?: (string | PaymentSigner)[];
+}
+
+/** Check if a key looks like an EVM private key (32-byte hex, optional 0x). */
+export function isEvmKey(key: string): boolean {
+  const k = key.startsWith("0x") ? key.slice(2) : key;
+  return /^[0-9a-fA-F]{64}$/.test(k);
+}
+
+/** Decode a base58 string to bytes. */
+function decodeBase58(str: string): Uint8Array {
+  const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+  const bytes: number[] = [];
+  for (const ch of str) {
+    const idx = ALPHABET.indexOf(ch);
+    if (idx < 0) throw new Error(`Invalid base58 character: ${ch}`);
+    let carry = idx;
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // leading zeros
+  for (const ch of str) {
+    if (ch !== "1") break;
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+/** @internal A signer for a private key, or null for a Solana key, which needs `solanaKeySigner()`. */
+export function keySigner(key: string): PaymentSigner | null {
+  if (!isEvmKey(key)) return null;
+  return privateKeyToAccount((key.startsWith("0x") ? key : `0x${key}`) as `0x${string}`);
+}
+
+/** @internal Signer for a base58 Solana keypair. */
+export function solanaKeySigner(key: string): Promise<PaymentSigner> {
+  return createKeyPairSignerFromBytes(decodeBase58(key));
+}
+
+/**
+ * @internal Payment client for signers of any supported kind, applying
+ * `options` to the server's payment requirements. An `x402Client` is used
+ * as is, with the policy registered on it, and cannot be combined with
+ * other signers.
+ */
+export function paymentClient(signers: PaymentSigner[], options: PaymentOptions): x402Client {
+  if (signers.length === 0) {
+    throw new STTError("privateKey or signer is required");
+  }
+  const custom = signers.find((s) => s instanceof x402Client);
+  if (custom && signers.length > 1) {
+    throw new STTError("An x402Client signer cannot be combined with other signers");
+  }
+
+  const client = custom ?? new x402Client();
+  for (const signer of custom ? [] : signers) {
+    if (isEvmSigner(signer)) {
+      registerExactEvmScheme(client, { signer });
+    } else if (isSolanaSigner(signer)) {
+      registerExactSvmScheme(client, { signer });
+    } else {
+      throw new STTError(
+        "Unrecognized signer: expected an EVM account, a Solana TransactionSigner or an x402Client"
+      );
+    }
+  }
+  return client.registerPolicy(paymentPolicy(options));
+}
+
+/**
+ * Filter the server's payment requirements to allowed networks and
+ * prices, then order them by preference.
+ */
+function paymentPolicy(options: PaymentOptions): PaymentPolicy {
+  const preferred = options.preferredNetworks ?? [];
+  const rank = (network: string) => {
+    const i = preferred.indexOf(network);
+    return i < 0 ? preferred.length : i;
+  };
+  return (_version, requirements) =>
+    requirements
+      .filter((r) => isAllowedNetwork(options, r.network))
+      .filter((r) => options.maxPriceUsd === undefined || requirementUsd(r) <= options.maxPriceUsd)
+      // Array.prototype.sort is stable, so ties keep the server's order
+      .sort((a, b) => rank(a.network) - rank(b.network));
+}
+
+/** Amount a requirement asks for, in USD. */
+function requirementUsd(requirement: PaymentRequirements): number {
+  // v1 requirements name the amount maxAmountRequired
+  const atomic =
+    requirement.amount ?? (requirement as { maxAmountRequired?: string }).maxAmountRequired;
+  return Number(atomic) / 10 ** USDC_DECIMALS;
+}
+
+function isAllowedNetwork(options: PaymentOptions, network: string): boolean {
+  return !options.networks || options.networks.includes(network);
+}
+
+/**
+ * @internal Throw `PaymentError` if a purchase priced at `priceUsd` on the
+ * server's advertised networks breaks `options`.
+ */
+export function checkPayment(options: PaymentOptions, pricing: PricingInfo, priceUsd: number): void {
+  // Some servers list every network they accept, comma-separated
+  const offered = pricing.network.split(",").map((n) => n.trim());
+  if (!offered.some((n) => isAllowedNetwork(options, n))) {
+    throw new PaymentError(
+      `Server is paid on ${pricing.network}, which is not an allowed network (${options.networks!.join(", ")})`
+    );
+  }
+  if (options.maxPriceUsd !== undefined && priceUsd > options.maxPriceUsd) {
+    throw new PaymentError(
+      `Price $${priceUsd.toFixed(4)} exceeds the maximum of $${options.maxPriceUsd} per payment`
+    );
+  }
+}
+
+/**
+ * @internal The settlement a paid response reports in its payment-response
+ * header; null if there is none. Throws if the header is malformed or
+ * reports a failed settlement.
+ */
+export function paymentReceipt(resp: Response, amountUsd: number): PaymentReceipt | null {
+  // v1 servers use the X- prefixed name
+  const header = resp.headers.get("PAYMENT-RESPONSE") ?? resp.headers.get("X-PAYMENT-RESPONSE");
+  if (!header) return null;
+  const settlement = decodePaymentResponseHeader(header);
+  if (!settlement.success) {
+    throw new PaymentError(`Settlement failed: ${settlement.errorReason ?? "unknown reason"}`);
+  }
+  return {
+    network: settlement.network,
+    payer: settlement.payer ?? null,
+    transactionHash: settlement.transaction,
+    amountUsd,
+    settledAt: new Date(),
+  };
+}
+
+function isEvmSigner(signer: PaymentSigner): signer is EvmSigner {
+  const s = signer as Partial<EvmSigner>;
+  return typeof s.signTypedData === "function" && /^0x[0-9a-fA-F]{40}$/.test(s.address ?? "");
+}
+
+function isSolanaSigner(signer: PaymentSigner): signer is SolanaSigner {
+  const s = signer as Record<string, unknown>;
+  return (
+    typeof s.address === "string" &&
+    (typeof s.signTransactions === "function" ||
+      typeof s.modifyAndSignTransactions === "function" ||
+      typeof s.signAndSendTransactions === "function")
+  );
+}
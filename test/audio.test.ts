@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { StreamResampler, decodeWav, resample } from "../src/audio.js";
+import { AudioFormatError } from "../src/index.js";
+import { ALAW_TABLE, MULAW_TABLE } from "../src/g711.js";
+import { wavBytes } from "./helpers.js";
+
+/** PCM16 samples of decoded 16kHz mono WAV bytes. */
+function samples(pcm: Uint8Array): number[] {
+  return Array.from(new Int16Array(pcm.buffer, pcm.byteOffset, pcm.length / 2));
+}
+
+function sine(length: number, rate: number, hz = 440): Float32Array {
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) out[i] = 0.5 * Math.sin((2 * Math.PI * hz * i) / rate);
+  return out;
+}
+
+describe("G.711", () => {
+  it("decodes μ-law to the reference values", () => {
+    // From the ITU-T G.711 μ-law decoding table
+    const reference: [number, number][] = [
+      [0x00, -32124], [0x01, -31100], [0x0f, -16764], [0x10, -15996],
+      [0x70, -120], [0x7e, -8], [0x7f, 0],
+      [0x80, 32124], [0xf0, 120], [0xfe, 8], [0xff, 0],
+    ];
+    for (const [byte, value] of reference) assert.equal(MULAW_TABLE[byte], value, `0x${byte.toString(16)}`);
+  });
+
+  it("decodes A-law to the reference values", () => {
+    // From the ITU-T G.711 A-law decoding table
+    const reference: [number, number][] = [
+      [0x00, -5504], [0x01, -5248], [0x2a, -32256], [0x55, -8], [0x54, -24],
+      [0x80, 5504], [0xaa, 32256], [0xd5, 8], [0xd4, 24],
+    ];
+    for (const [byte, value] of reference) assert.equal(ALAW_TABLE[byte], value, `0x${byte.toString(16)}`);
+  });
+
+  it("decodes G.711 WAVs through the tables", () => {
+    const data = Uint8Array.from([0x00, 0x7f, 0x80, 0xff]);
+    // Format codes 7 (μ-law) and 6 (A-law); 8kHz A-law is upsampled to 16kHz
+    const mulaw = decodeWav(wavBytes({ audioFormat: 7, sampleRate: 16000, bitsPerSample: 8, data }));
+    assert.deepEqual(samples(mulaw.pcmData), [-32124, 0, 32124, 0]);
+    const alaw = decodeWav(wavBytes({ audioFormat: 6, sampleRate: 8000, bitsPerSample: 8, data }));
+    assert.equal(alaw.pcmData.length, data.length * 2 * 2);
+  });
+});
+
+describe("decodeWav sample formats", () => {
+  it("converts 8-bit unsigned samples", () => {
+    const wav = wavBytes({ bitsPerSample: 8, data: Uint8Array.from([0, 64, 128, 255]) });
+    assert.deepEqual(samples(decodeWav(wav).pcmData), [-32768, -16384, 0, 32512]);
+  });
+
+  it("converts 24-bit samples with sign extension", () => {
+    const data = Buffer.alloc(12);
+    [0x7fffff, -0x800000, 0x000100, -0x000100].forEach((v, i) => data.writeIntLE(v, i * 3, 3));
+    const wav = wavBytes({ bitsPerSample: 24, data });
+    assert.deepEqual(samples(decodeWav(wav).pcmData), [32767, -32768, 1, -1]);
+  });
+
+  it("converts 32-bit integer samples", () => {
+    const data = Buffer.alloc(16);
+    [0x7fffffff, -0x80000000, 0x00010000, -0x00010000].forEach((v, i) => data.writeInt32LE(v, i * 4));
+    const wav = wavBytes({ bitsPerSample: 32, data });
+    assert.deepEqual(samples(decodeWav(wav).pcmData), [32767, -32768, 1, -1]);
+  });
+
+  it("converts 32-bit float samples and clips them", () => {
+    const data = Buffer.alloc(16);
+    [0.5, -0.5, 1.5, -1].forEach((v, i) => data.writeFloatLE(v, i * 4));
+    const wav = wavBytes({ audioFormat: 3, bitsPerSample: 32, data });
+    assert.deepEqual(samples(decodeWav(wav).pcmData), [16384, -16384, 32767, -32768]);
+  });
+
+  it("rejects a format chunk with 0 bits per sample", () => {
+    const wav = wavBytes({ bitsPerSample: 0, data: Buffer.alloc(6) });
+    assert.throws(() => decodeWav(wav), (e: unknown) => {
+      assert.ok(e instanceof AudioFormatError);
+      assert.match(e.message, /0 bits per sample/);
+      return true;
+    });
+  });
+
+  it("rejects formats it cannot convert in strict mode", () => {
+    const wav = wavBytes({ bitsPerSample: 24, data: Buffer.alloc(6) });
+    assert.throws(() => decodeWav(wav, { strict: true }), /16-bit/);
+  });
+});
+
+describe("StreamResampler", () => {
+  for (const [from, to] of [[44100, 16000], [48000, 16000], [8000, 16000]]) {
+    it(`gives the same ${from} → ${to} Hz output in chunks as in one piece`, () => {
+      const input = sine(from, from);
+      const whole = resample(input, from, to);
+      assert.equal(whole.length, to);
+
+      const resampler = new StreamResampler(from, to);
+      const parts: number[] = [];
+      // Irregular chunk sizes, including empty and single-sample chunks
+      const sizes = [1, 0, 7, 160, 1, 2000, 333];
+      for (let offset = 0, i = 0; offset < input.length; i++) {
+        const size = sizes[i % sizes.length];
+        parts.push(...resampler.process(input.subarray(offset, offset + size)));
+        offset += size;
+      }
+      parts.push(...resampler.flush());
+      assert.deepEqual(Float32Array.from(parts), whole);
+    });
+  }
+
+  it("passes the signal without discontinuities", () => {
+    const out = resample(sine(44100, 44100), 44100, 16000);
+    const expected = sine(16000, 16000);
+    // Away from the edges, the resampled tone matches one generated at 16kHz
+    let worst = 0;
+    for (let i = 100; i < out.length - 100; i++) worst = Math.max(worst, Math.abs(out[i] - expected[i]));
+    assert.ok(worst < 0.01, `max error ${worst}`);
+  });
+});
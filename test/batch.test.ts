@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import {
+  AbortError,
+  AudioFormatError,
+  BudgetExhaustedError,
+  STTClient,
+} from "../src/index.js";
+import type { BatchOptions, BatchProgressEvent } from "../src/index.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+import { wavFile } from "./helpers.js";
+
+const FAST: BatchOptions = {
+  pacing: { unthrottled: true },
+  trailingSilenceSeconds: 0.5,
+  drainTimeoutMs: 200,
+};
+
+describe("STTClient.transcribeBatch", () => {
+  let server: MockSTTServer;
+  let client: STTClient;
+
+  before(async () => {
+    server = await MockSTTServer.start({
+      pricePerMinuteUsd: 0.01,
+      transcripts: [{ text: "hello", atSecond: 1, start: 0, end: 1 }],
+    });
+    client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("transcribes every file, reusing one session per worker", async () => {
+    const files = [wavFile(2), "/nonexistent.wav", wavFile(2), wavFile(2)];
+    const sessionsBefore = server.sessions.size;
+    const batch = client.transcribeBatch(files, { ...FAST, concurrency: 2 });
+    const progress: BatchProgressEvent[] = [];
+    batch.on("progress", (p) => progress.push(p));
+
+    const results = await batch.results;
+    assert.deepEqual(results.map((r) => r.file), files);
+    assert.ok(results[1].error instanceof AudioFormatError);
+    for (const i of [0, 2, 3]) {
+      assert.equal(results[i].error, null);
+      assert.ok(results[i].transcript);
+    }
+    // Two workers, two sessions, reconnected for each file
+    assert.equal(server.sessions.size - sessionsBefore, 2);
+    assert.equal(results.filter((r) => r.transcript?.toText() === "hello").length, 3);
+    assert.deepEqual(progress.at(-1), {
+      completed: 4,
+      failed: 1,
+      total: 4,
+      spentUsd: batch.spentUsd,
+    });
+  });
+
+  it("times each file's segments from the start of that file", async () => {
+    const sessionsBefore = server.sessions.size;
+    const batch = client.transcribeBatch([wavFile(2), wavFile(2)], { ...FAST, concurrency: 1 });
+    const results = await batch.results;
+
+    assert.equal(server.sessions.size - sessionsBefore, 1);
+    assert.equal(results[0].sessionId, results[1].sessionId);
+    for (const result of results) {
+      assert.deepEqual(
+        result.transcript!.segments.map((t) => [t.text, t.start, t.end]),
+        [["hello", 0, 1]]
+      );
+    }
+  });
+
+  it("shares the spending limit across the batch", async () => {
+    const files = [wavFile(1), wavFile(1), wavFile(1)];
+    const batch = client.transcribeBatch(files, {
+      ...FAST,
+      concurrency: 3,
+      maxSpendUsd: 0.015,
+    });
+
+    const results = await batch.results;
+    assert.equal(results.filter((r) => r.error === null).length, 1);
+    assert.equal(
+      results.filter((r) => r.error instanceof BudgetExhaustedError).length,
+      2
+    );
+    assert.ok(batch.spentUsd <= 0.015);
+  });
+
+  it("stops connecting once its signal is aborted", async () => {
+    const files = Array.from({ length: 6 }, () => wavFile(2));
+    const controller = new AbortController();
+    const configsBefore = server.messages.filter((m) => m.type === "config").length;
+    const batch = client.transcribeBatch(files, {
+      ...FAST,
+      concurrency: 1,
+      signal: controller.signal,
+    });
+    batch.on("fileStarted", ({ index }) => {
+      if (index === 0) controller.abort();
+    });
+
+    const results = await batch.results;
+    assert.ok(results.every((r) => r.error instanceof AbortError));
+    assert.deepEqual(
+      results.map((r) => r.sessionId !== null),
+      [true, false, false, false, false, false]
+    );
+    assert.equal(server.messages.filter((m) => m.type === "config").length - configsBefore, 1);
+  });
+});
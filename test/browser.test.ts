@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { builtinModules } from "node:module";
+import { dirname, join, relative } from "node:path";
+import { afterEach, describe, it } from "node:test";
+
+import { captureMicrophone } from "../src/index.js";
+import type { AudioContextLike } from "../src/index.js";
+
+/** Stands in for the browser's `AudioWorkletNode`, keeping the last one made. */
+class FakeWorkletNode {
+  static last: FakeWorkletNode | null = null;
+  port = {
+    onmessage: null as ((event: { data: Float32Array }) => void) | null,
+    close() {},
+  };
+  constructor() {
+    FakeWorkletNode.last = this;
+  }
+  connect() {}
+  disconnect() {}
+}
+
+function fakeContext(sampleRate: number): AudioContextLike & { closed: boolean } {
+  return {
+    sampleRate,
+    closed: false,
+    audioWorklet: { addModule: async () => {} },
+    createMediaStreamSource: () => new FakeWorkletNode(),
+    async close() {
+      this.closed = true;
+    },
+  };
+}
+
+describe("captureMicrophone", () => {
+  const globals = globalThis as Record<string, unknown>;
+
+  afterEach(() => {
+    delete globals.AudioWorkletNode;
+  });
+
+  it("resamples captured audio to PCM16 16kHz and sends it in order", async () => {
+    globals.AudioWorkletNode = FakeWorkletNode;
+    const sent: Uint8Array[] = [];
+    const stream = {
+      sendAudio: async (data: Uint8Array | ArrayBuffer) => {
+        sent.push(data as Uint8Array);
+      },
+    };
+    const context = fakeContext(48000);
+    const capture = await captureMicrophone(
+      stream,
+      { getAudioTracks: () => [{}] },
+      { audioContext: context }
+    );
+    const node = FakeWorkletNode.last!;
+    // One second at 48kHz, in 128-sample render quanta
+    for (let i = 0; i < 375; i++) {
+      node.port.onmessage!({ data: new Float32Array(128).fill(0.25) });
+    }
+    await capture.stop();
+
+    const bytes = sent.reduce((n, chunk) => n + chunk.length, 0);
+    assert.ok(Math.abs(bytes - 32000) <= 4, `sent ${bytes} bytes`);
+    assert.ok(sent.slice(0, -1).every((chunk) => chunk.length >= 640));
+    // A context passed in is left open for the caller
+    assert.equal(context.closed, false);
+  });
+});
+
+describe("browser entry", () => {
+  const root = join(__dirname, "..");
+
+  /** Modules the `browser` field of package.json stubs out, as source paths. */
+  function stubbed(): Set<string> {
+    const { browser } = JSON.parse(readFileSync(join(root, "package.json"), "utf8")) as {
+      browser: Record<string, false>;
+    };
+    return new Set(
+      Object.keys(browser).map((key) =>
+        key.startsWith("./dist/") ? join(root, "src", key.slice(7).replace(/\.js$/, ".ts")) : key
+      )
+    );
+  }
+
+  it("loads without Node built-ins once the browser field is applied", () => {
+    const stubs = stubbed();
+    const seen = new Set<string>();
+    const builtins: string[] = [];
+    const visit = (file: string) => {
+      if (seen.has(file) || stubs.has(file)) return;
+      seen.add(file);
+      const source = readFileSync(file, "utf8");
+      // Type-only imports are erased, so only runtime imports count
+      const imports = source.matchAll(/^(?:import|export) (?!type )[^;]*?from "([^"]+)"/gms);
+      for (const [, specifier] of imports) {
+        if (specifier.startsWith(".")) {
+          visit(join(dirname(file), specifier.replace(/\.js$/, ".ts")));
+        } else if (
+          !stubs.has(specifier) &&
+          (specifier.startsWith("node:") || builtinModules.includes(specifier))
+        ) {
+          builtins.push(`${relative(root, file)}: ${specifier}`);
+        }
+      }
+    };
+    visit(join(root, "src", "index.ts"));
+
+    assert.ok(seen.has(join(root, "src", "stream.ts")));
+    assert.deepEqual(builtins, []);
+  });
+});
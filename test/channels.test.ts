@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { STTClient, STTError } from "../src/index.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+import { wavFile } from "./helpers.js";
+
+describe("STTClient.transcribeChannels", () => {
+  let server: MockSTTServer;
+  let client: STTClient;
+
+  before(async () => {
+    server = await MockSTTServer.start({
+      transcripts: [
+        { text: "hi", atSecond: 0.5, isFinal: false },
+        { text: "hello", atSecond: 1, start: 0, end: 1 },
+        { text: "world", atSecond: 2, start: 1, end: 2 },
+      ],
+    });
+    client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("merges per-channel finals by start, with speaker labels", async () => {
+    const sessionsBefore = server.sessions.size;
+    const results = await client.transcribeChannels(wavFile(2, 2), {
+      labels: ["agent", "customer"],
+      pacing: { unthrottled: true },
+      trailingSilenceSeconds: 0.5,
+      drainTimeoutMs: 200,
+    });
+
+    assert.equal(server.sessions.size - sessionsBefore, 2);
+    assert.deepEqual(
+      results.map((t) => [t.text, t.channel, t.speaker]),
+      [
+        ["hello", 0, "agent"],
+        ["hello", 1, "customer"],
+        ["world", 0, "agent"],
+        ["world", 1, "customer"],
+      ]
+    );
+  });
+
+  it("rejects mismatched labels before paying", async () => {
+    const sessionsBefore = server.sessions.size;
+    await assert.rejects(
+      client.transcribeChannels(wavFile(1, 2), { labels: ["only-one"] }),
+      STTError
+    );
+    assert.equal(server.sessions.size, sessionsBefore);
+  });
+});
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test";
+
+import {
+  EXIT_AUDIO_FORMAT,
+  EXIT_CONNECTION,
+  EXIT_ERROR,
+  EXIT_OK,
+  EXIT_PAYMENT,
+  EXIT_SESSION_EXPIRED,
+  EXIT_USAGE,
+  exitCodeFor,
+  main,
+} from "../src/cli.js";
+import {
+  AudioFormatError,
+  BudgetExhaustedError,
+  ConnectionError,
+  PaymentError,
+  SessionExpiredError,
+} from "../src/index.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+import { wavFile } from "./helpers.js";
+
+const KEY_VARS = ["DTELECOM_PRIVATE_KEY", "DTELECOM_KEY_FILE"] as const;
+
+describe("CLI", () => {
+  let server: MockSTTServer;
+  let stdout: string;
+  let stderr: string;
+  const env: Partial<Record<(typeof KEY_VARS)[number], string>> = {};
+
+  before(async () => {
+    server = await MockSTTServer.start({
+      pricePerMinuteUsd: 0.01,
+      transcripts: [{ text: "hello", atSecond: 1, start: 0, end: 1 }],
+    });
+    for (const name of KEY_VARS) env[name] = process.env[name];
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    stdout = "";
+    stderr = "";
+    // The test runner reports over stdout too, in binary; pass that through
+    const write = process.stdout.write.bind(process.stdout);
+    mock.method(process.stdout, "write", (chunk: string | Uint8Array) => {
+      if (typeof chunk !== "string") return write(chunk);
+      stdout += chunk;
+      return true;
+    });
+    mock.method(console, "log", (...args: unknown[]) => {
+      stdout += `${args.join(" ")}\n`;
+    });
+    mock.method(console, "error", (...args: unknown[]) => {
+      stderr += `${args.join(" ")}\n`;
+    });
+    for (const name of KEY_VARS) delete process.env[name];
+    process.env.DTELECOM_PRIVATE_KEY = TEST_EVM_PRIVATE_KEY;
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    for (const name of KEY_VARS) {
+      if (env[name] === undefined) delete process.env[name];
+      else process.env[name] = env[name];
+    }
+  });
+
+  it("prints usage and exits 2 without a command", async () => {
+    assert.equal(await main([]), EXIT_USAGE);
+    assert.match(stdout, /^Usage: dtelecom-stt/);
+    assert.equal(await main(["--help"]), EXIT_OK);
+  });
+
+  it("exits 2 on an unknown command or option", async () => {
+    assert.equal(await main(["transcode"]), EXIT_USAGE);
+    assert.match(stderr, /Unknown command: transcode/);
+    assert.equal(await main(["pricing", "--colour"]), EXIT_USAGE);
+  });
+
+  it("exits 2 on a bad --format or --language before paying", async () => {
+    const file = wavFile(2);
+    const requests = server.requests.length;
+    assert.equal(await main(["transcribe", file, "--format", "docx", "--url", server.url]), EXIT_USAGE);
+    assert.match(stderr, /--format must be one of: srt, vtt, json, txt/);
+    assert.equal(await main(["transcribe", file, "--language", "xx", "--url", server.url]), EXIT_USAGE);
+    assert.match(stderr, /--language must be one of/);
+    assert.equal(server.requests.length, requests);
+  });
+
+  it("exits 5 on unreadable audio", async () => {
+    assert.equal(await main(["transcribe", __filename, "--url", server.url]), EXIT_AUDIO_FORMAT);
+  });
+
+  it("transcribes a file", async () => {
+    assert.equal(await main(["transcribe", wavFile(2), "--url", server.url]), EXIT_OK);
+    assert.equal(stdout, "hello\n");
+  });
+
+  it("reads the audio file once", async () => {
+    const file = wavFile(2);
+    const reads = mock.method(fs, "readFileSync");
+    assert.equal(await main(["transcribe", file, "--url", server.url]), EXIT_OK);
+    assert.equal(reads.mock.calls.filter((c) => c.arguments[0] === file).length, 1);
+  });
+
+  it("does not read the key for pricing and health", async () => {
+    delete process.env.DTELECOM_PRIVATE_KEY;
+    process.env.DTELECOM_KEY_FILE = "/nonexistent/key";
+    assert.equal(await main(["pricing", "--url", server.url]), EXIT_OK);
+    assert.equal(JSON.parse(stdout).pricePerMinuteUsd, 0.01);
+    assert.equal(await main(["health", "--url", server.url]), EXIT_OK);
+
+    assert.equal(await main(["transcribe", wavFile(1), "--url", server.url]), EXIT_USAGE);
+    assert.match(stderr, /Cannot read key file: \/nonexistent\/key/);
+  });
+});
+
+describe("exitCodeFor", () => {
+  it("maps SDK errors to exit codes", () => {
+    assert.equal(exitCodeFor(new PaymentError("x")), EXIT_PAYMENT);
+    assert.equal(exitCodeFor(new BudgetExhaustedError("x")), EXIT_PAYMENT);
+    assert.equal(exitCodeFor(new ConnectionError("x")), EXIT_CONNECTION);
+    assert.equal(exitCodeFor(new AudioFormatError("x")), EXIT_AUDIO_FORMAT);
+    assert.equal(exitCodeFor(new SessionExpiredError("x")), EXIT_SESSION_EXPIRED);
+    assert.equal(exitCodeFor(new Error("x")), EXIT_ERROR);
+    assert.equal(exitCodeFor("x"), EXIT_ERROR);
+  });
+});
@@ -0,0 +1,401 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { registerExactEvmScheme } from "@x402/evm/exact/client";
+import { x402Client } from "@x402/fetch";
+import { privateKeyToAccount } from "viem/accounts";
+
+import {
+  AbortError,
+  BudgetExhaustedError,
+  ConnectionError,
+  NETWORKS,
+  PaymentError,
+  STTClient,
+  STTError,
+} from "../src/index.js";
+import type { Language, PaymentSigner } from "../src/index.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+import { once, waitFor, wavFile } from "./helpers.js";
+
+describe("STTClient", () => {
+  let server: MockSTTServer;
+  let client: STTClient;
+
+  before(async () => {
+    server = await MockSTTServer.start({ pricePerMinuteUsd: 0.01 });
+    client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("fetches pricing", async () => {
+    const info = await client.pricing();
+    assert.equal(info.pricePerMinuteUsd, 0.01);
+    assert.equal(info.minMinutes, 1);
+    assert.equal(info.currency, "USDC");
+  });
+
+  it("checks health", async () => {
+    const health = await client.health();
+    assert.equal(health.status, "ok");
+  });
+
+  it("pays the 402 challenge when opening a session", async () => {
+    const before = server.requests.length;
+    const stream = await client.session({ minutes: 2 }).open();
+    await stream.close();
+
+    const requests = server.requests.slice(before);
+    assert.deepEqual(
+      requests.map((r) => [r.path, r.paid]),
+      [["/v1/session", false], ["/v1/session", true]]
+    );
+    const session = [...server.sessions.values()].at(-1)!;
+    assert.equal(session.minutes, 2);
+    assert.deepEqual(session.payers, [
+      privateKeyToAccount(TEST_EVM_PRIVATE_KEY).address,
+    ]);
+  });
+
+  it("pays with an external signer instead of a raw key", async () => {
+    const account = privateKeyToAccount(TEST_EVM_PRIVATE_KEY);
+    // Stands in for a KMS-backed signer: only the address and a signing call
+    const signer = {
+      address: account.address,
+      signTypedData: (message: Parameters<typeof account.signTypedData>[0]) =>
+        account.signTypedData(message),
+    };
+    const local = await STTClient.create({ signer, url: server.url });
+    const stream = await local.session({ minutes: 1 }).open();
+    await stream.close();
+    assert.deepEqual(server.sessions.get(stream.sessionId)!.payers, [account.address]);
+  });
+
+  it("accepts a viem account or x402Client as the signer", async () => {
+    const account = privateKeyToAccount(TEST_EVM_PRIVATE_KEY);
+    const paymentClient = new x402Client();
+    registerExactEvmScheme(paymentClient, { signer: account });
+    for (const signer of [account, paymentClient]) {
+      const local = new STTClient({ signer, url: server.url });
+      const stream = await local.session({ minutes: 1 }).open();
+      await stream.close();
+      assert.deepEqual(server.sessions.get(stream.sessionId)!.payers, [account.address]);
+    }
+  });
+
+  it("makes unpaid calls without a key, but refuses to buy", async () => {
+    const unpaid = new STTClient({ url: server.url });
+    assert.equal((await unpaid.pricing()).pricePerMinuteUsd, 0.01);
+    assert.equal((await unpaid.health()).status, "ok");
+
+    const requests = server.requests.length;
+    await assert.rejects(unpaid.session({ minutes: 1 }).open(), /privateKey or signer is required/);
+    assert.equal(server.requests.length, requests);
+  });
+
+  it("rejects an unrecognized signer", () => {
+    assert.throws(
+      () => new STTClient({ signer: {} as PaymentSigner, url: server.url }),
+      /Unrecognized signer/
+    );
+  });
+
+  it("refuses to pay on a network that is not allowed", async () => {
+    const local = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      payment: { networks: [NETWORKS.base] },
+    });
+    const before = server.sessions.size;
+    await assert.rejects(local.session({ minutes: 1 }).open(), /not an allowed network/);
+    assert.equal(server.sessions.size, before);
+
+    const testnet = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      payment: { networks: [NETWORKS.baseSepolia] },
+    });
+    await (await testnet.session({ minutes: 1 }).open()).close();
+  });
+
+  it("refuses payments above maxPriceUsd", async () => {
+    const local = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      payment: { maxPriceUsd: 0.02 },
+    });
+    await assert.rejects(local.session({ minutes: 5 }).open(), PaymentError);
+    await (await local.session({ minutes: 2 }).open()).close();
+  });
+
+  it("picks the preferred network among those offered", async () => {
+    const account = privateKeyToAccount(TEST_EVM_PRIVATE_KEY);
+    const paymentClient = new x402Client();
+    registerExactEvmScheme(paymentClient, { signer: account });
+    // Registers the payment policy on paymentClient
+    new STTClient({
+      signer: paymentClient,
+      payment: { preferredNetworks: [NETWORKS.base], maxPriceUsd: 0.05 },
+    });
+
+    const offer = (network: string, amount: string) => ({
+      scheme: "exact",
+      network: network as `${string}:${string}`,
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      amount,
+      payTo: account.address,
+      maxTimeoutSeconds: 60,
+      extra: { name: "USDC", version: "2" },
+    });
+    const payload = await paymentClient.createPaymentPayload({
+      x402Version: 2,
+      resource: { url: "https://example.com/v1/session", description: "", mimeType: "" },
+      accepts: [
+        offer(NETWORKS.baseSepolia, "10000"),
+        offer("eip155:1", "10000"),
+        offer(NETWORKS.base, "10000"),
+        offer(NETWORKS.base, "90000"),
+      ],
+    });
+    assert.equal(payload.accepted.network, NETWORKS.base);
+    assert.equal(payload.accepted.amount, "10000");
+  });
+
+  it("exposes payment receipts for the purchase and each extension", async () => {
+    const stream = await client.session({ minutes: 2 }).open();
+    try {
+      const [receipt] = stream.receipts;
+      assert.equal(receipt.network, "eip155:84532");
+      assert.equal(receipt.payer, privateKeyToAccount(TEST_EVM_PRIVATE_KEY).address);
+      assert.match(receipt.transactionHash, /^0x[0-9a-f]{64}$/);
+      assert.ok(Math.abs(receipt.amountUsd - 0.02) < 1e-9);
+
+      server.sendExpiring(stream.sessionId);
+      await waitFor(() => stream.receipts.length === 2);
+      const extension = stream.receipts[1];
+      assert.notEqual(extension.transactionHash, receipt.transactionHash);
+      assert.deepEqual(
+        client.ledger.entries(stream.sessionId).map((r) => r.receipt),
+        stream.receipts
+      );
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("records payments in the ledger", async () => {
+    const local = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+    const stream = await local.session({ minutes: 3 }).open();
+    await stream.close();
+
+    const [record] = local.ledger.entries();
+    assert.equal(record.kind, "session");
+    assert.equal(record.minutes, 3);
+    assert.ok(Math.abs(record.amountUsd - 0.03) < 1e-9);
+  });
+
+  it("refuses purchases over the client spending limit", async () => {
+    const capped = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      maxSpendUsd: 0.02,
+    });
+    await assert.rejects(capped.session({ minutes: 5 }).open(), BudgetExhaustedError);
+    assert.equal(capped.ledger.entries().length, 0);
+  });
+
+  it("does not let concurrent purchases overrun the spending limit", async () => {
+    const capped = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      maxSpendUsd: 0.05,
+    });
+    const opened = await Promise.allSettled(
+      [1, 2, 3].map(() => capped.session({ minutes: 2 }).open())
+    );
+    const streams = opened.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+    const refused = opened.flatMap((r) => (r.status === "rejected" ? [r.reason] : []));
+    assert.equal(streams.length, 2);
+    assert.equal(refused.length, 1);
+    assert.ok(refused[0] instanceof BudgetExhaustedError);
+    assert.ok(Math.abs(capped.ledger.totalUsd() - 0.04) < 1e-9);
+    await Promise.all(streams.map((s) => s.close()));
+  });
+
+  for (const [limit, details] of [
+    [{ maxSpendUsd: 0.02 }, /session limit of \$0\.02$/],
+    [{ maxTotalMinutes: 2 }, /session limit of 2 minutes$/],
+  ] as const) {
+    it(`stops auto-extending at a session ${Object.keys(limit)[0]}`, async () => {
+      const stream = await client.session({ minutes: 1, extendMinutes: 1, ...limit }).open();
+      const session = server.sessions.get(stream.sessionId)!;
+      const exhausted: BudgetExhaustedError[] = [];
+      stream.on("budgetExhausted", (e) => exhausted.push(e));
+      const closed = once(stream, "closed");
+
+      // Under the 60s threshold at once: the first extension fits the limit
+      const extended = once(stream, "extended");
+      await stream.sendAudio(Buffer.alloc(32000));
+      await extended;
+      // Under the threshold again: a second extension would exceed it
+      await stream.sendAudio(Buffer.alloc(32000 * 60));
+      await waitFor(() => exhausted.length > 0);
+      await stream.sendAudio(Buffer.alloc(32000 * 60));
+      const [event] = await closed;
+
+      assert.equal(session.minutes, 2);
+      assert.deepEqual(client.ledger.entries(stream.sessionId).map((r) => r.minutes), [1, 1]);
+      assert.equal(exhausted.length, 1);
+      assert.match(exhausted[0].message, details);
+      assert.equal(event.reason, "expired");
+      assert.equal(event.error, exhausted[0]);
+      await assert.rejects(stream.sendAudio(Buffer.alloc(32000)), BudgetExhaustedError);
+    });
+  }
+
+  it("estimates cost within the server's minute limits", async () => {
+    const short = await client.estimateCost(90);
+    assert.equal(short.minutes, 2);
+    assert.equal(short.needsExtension, false);
+    assert.ok(Math.abs(short.priceUsd - 0.02) < 1e-9);
+
+    const long = await client.estimateCost(150 * 60);
+    assert.equal(long.requiredMinutes, 150);
+    assert.equal(long.minutes, 120);
+    assert.equal(long.needsExtension, true);
+    assert.ok(Math.abs(long.totalPriceUsd - 1.5) < 1e-9);
+  });
+
+  it("sizes an auto session to the file", async () => {
+    // 59s of audio plus trailing silence needs a second minute
+    const stream = await client
+      .session({ minutes: "auto", forFile: wavFile(59) })
+      .open();
+    await stream.close();
+    assert.equal([...server.sessions.values()].at(-1)!.minutes, 2);
+    assert.equal(stream.sizing?.minutes, 2);
+    assert.equal(stream.sizing?.needsExtension, false);
+
+    const fixed = await client.session({ minutes: 1 }).open();
+    await fixed.close();
+    assert.equal(fixed.sizing, null);
+  });
+
+  it("reports an auto session too short for its file", async () => {
+    const small = await MockSTTServer.start({ maxMinutes: 1 });
+    try {
+      const stream = await new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: small.url })
+        .session({ minutes: "auto", forFile: wavFile(90) })
+        .open();
+      await stream.close();
+      assert.equal(stream.sizing?.minutes, 1);
+      assert.equal(stream.sizing?.requiredMinutes, 2);
+      assert.equal(stream.sizing?.needsExtension, true);
+    } finally {
+      await small.close();
+    }
+  });
+
+  it("requires forFile for auto sessions", () => {
+    assert.throws(() => client.session({ minutes: "auto" }), STTError);
+  });
+
+  it("rejects unsupported languages before paying", () => {
+    const before = server.requests.length;
+    assert.throws(() => client.session({ language: "xx" as Language }), /Unsupported language "xx"/);
+    assert.equal(server.requests.length, before);
+  });
+
+  it("maps a 402 to PaymentError", async () => {
+    server.failNext("session", { status: 402, body: { message: "insufficient funds" } });
+    await assert.rejects(client.session().open(), (e: unknown) => {
+      assert.ok(e instanceof PaymentError);
+      return true;
+    });
+  });
+
+  it("maps other HTTP failures to STTError", async () => {
+    server.failNext("session", { status: 400 });
+    await assert.rejects(client.session().open(), (e: unknown) => {
+      assert.ok(e instanceof STTError);
+      assert.ok(!(e instanceof PaymentError));
+      return true;
+    });
+  });
+
+  describe("retries", () => {
+    const fast = () =>
+      new STTClient({
+        privateKey: TEST_EVM_PRIVATE_KEY,
+        url: server.url,
+        retry: { baseDelayMs: 1, timeoutMs: 200 },
+      });
+
+    it("retries retryable statuses until the attempts run out", async () => {
+      const before = server.requests.length;
+      server.failNext("pricing", { status: 503 });
+      assert.equal((await fast().pricing()).pricePerMinuteUsd, 0.01);
+      assert.equal(server.requests.length - before, 2);
+
+      for (let i = 0; i < 3; i++) server.failNext("pricing", { status: 502 });
+      await assert.rejects(fast().pricing(), /Pricing request failed \(502\)/);
+    });
+
+    it("retries an attempt that times out", async () => {
+      server.delayNext("pricing", 500);
+      assert.equal((await fast().pricing()).pricePerMinuteUsd, 0.01);
+
+      server.delayNext("pricing", 500);
+      const once = new STTClient({
+        privateKey: TEST_EVM_PRIVATE_KEY,
+        url: server.url,
+        retry: { attempts: 1, timeoutMs: 100 },
+      });
+      await assert.rejects(once.pricing(), (e: unknown) => {
+        assert.ok(e instanceof ConnectionError);
+        assert.match(e.message, /timed out after 100ms/);
+        return true;
+      });
+    });
+
+    it("does not pay twice when a paid response is lost", async () => {
+      const sessions = server.sessions.size;
+      const before = server.requests.length;
+      server.dropNext("session");
+      const stream = await fast().session({ minutes: 1 }).open();
+      await stream.close();
+
+      assert.equal(server.sessions.size, sessions + 1);
+      assert.equal(server.sessions.get(stream.sessionId)!.payers.length, 1);
+      // The retry is answered from the first purchase, before any challenge
+      assert.deepEqual(
+        server.requests.slice(before).map((r) => r.paid),
+        [false, true, false]
+      );
+      assert.equal(stream.receipts.length, 1);
+    });
+
+    it("rejects with AbortError when the signal aborts", async () => {
+      const aborted = AbortSignal.abort();
+      const before = server.requests.length;
+      await assert.rejects(fast().health({ signal: aborted }), AbortError);
+      assert.equal(server.requests.length, before);
+
+      server.delayNext("pricing", 500);
+      const controller = new AbortController();
+      const pending = fast().pricing({ signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+      await assert.rejects(pending, AbortError);
+    });
+  });
+
+  it("maps network failures to ConnectionError", async () => {
+    const offline = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: "http://127.0.0.1:9",
+    });
+    await assert.rejects(offline.pricing(), ConnectionError);
+  });
+});
@@ -0,0 +1,97 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type { EventMap, TypedEmitter } from "../src/events.js";
+
+/** Write a PCM16 16kHz WAV of silence to a temp file; returns its path. */
+export function wavFile(seconds: number, channels = 1): string {
+  return wavFromPcm(Buffer.alloc(16000 * 2 * channels * seconds), channels);
+}
+
+/** Write interleaved PCM16 16kHz samples as a WAV temp file; returns its path. */
+export function wavFromPcm(data: Buffer, channels = 1): string {
+  const path = join(mkdtempSync(join(tmpdir(), "stt-test-")), "audio.wav");
+  writeFileSync(path, wavBytes({ channels, data }));
+  return path;
+}
+
+/** A RIFF chunk id and body; odd-sized bodies are padded when written. */
+export type RiffChunk = [id: string, body: Uint8Array];
+
+export interface WavSpec {
+  /** WAV format code (default 1, integer PCM). */
+  audioFormat?: number;
+  channels?: number;
+  sampleRate?: number;
+  bitsPerSample?: number;
+  data: Uint8Array;
+  /** Declared data size instead of the real one, e.g. 0 for a streamed WAV. */
+  dataSize?: number;
+  /** Chunks before the fmt chunk. */
+  leading?: RiffChunk[];
+  /** Chunks after the data chunk. */
+  trailing?: RiffChunk[];
+}
+
+/** Build WAV file bytes (PCM16 16kHz mono unless `spec` says otherwise). */
+export function wavBytes(spec: WavSpec): Buffer {
+  const channels = spec.channels ?? 1;
+  const sampleRate = spec.sampleRate ?? 16000;
+  const bitsPerSample = spec.bitsPerSample ?? 16;
+  const blockAlign = (bitsPerSample / 8) * channels;
+
+  const fmt = Buffer.alloc(16);
+  fmt.writeUInt16LE(spec.audioFormat ?? 1, 0);
+  fmt.writeUInt16LE(channels, 2);
+  fmt.writeUInt32LE(sampleRate, 4);
+  fmt.writeUInt32LE(sampleRate * blockAlign, 8);
+  fmt.writeUInt16LE(blockAlign, 12);
+  fmt.writeUInt16LE(bitsPerSample, 14);
+
+  const chunk = ([id, body]: RiffChunk, size = body.length) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, "ascii");
+    header.writeUInt32LE(size, 4);
+    return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+  };
+  const body = Buffer.concat([
+    Buffer.from("WAVE"),
+    ...(spec.leading ?? []).map((c) => chunk(c)),
+    chunk(["fmt ", fmt]),
+    chunk(["data", spec.data], spec.dataSize),
+    ...(spec.trailing ?? []).map((c) => chunk(c)),
+  ]);
+  return Buffer.concat([chunk(["RIFF", body]).subarray(0, 8), body]);
+}
+
+/** PCM16 16kHz mono: a 440 Hz tone for each `true`, silence for each `false`, one second each. */
+export function toneAndSilence(pattern: boolean[]): Buffer {
+  const out = Buffer.alloc(32000 * pattern.length);
+  pattern.forEach((tone, second) => {
+    if (!tone) return;
+    for (let i = 0; i < 16000; i++) {
+      const sample = Math.round(0.3 * 32767 * Math.sin((2 * Math.PI * 440 * i) / 16000));
+      out.writeInt16LE(sample, (second * 16000 + i) * 2);
+    }
+  });
+  return out;
+}
+
+/** Poll until `condition` holds; fails after `timeoutMs`. */
+export async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await sleep(10);
+  }
+}
+
+/** Resolve with the listener arguments of the emitter's next `event`. */
+export function once<Events extends EventMap<Events>, K extends keyof Events>(
+  emitter: TypedEmitter<Events>,
+  event: K
+): Promise<Events[K]> {
+  return new Promise((resolve) => emitter.once(event, (...args) => resolve(args)));
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, it, mock } from "node:test";
+
+import { STTClient, pinoLogger } from "../src/index.js";
+import type { LogFields, Logger } from "../src/index.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+
+type Level = keyof Logger;
+
+/** Logger that records every call. */
+function recordingLogger(): Logger & { lines: [Level, string, LogFields | undefined][] } {
+  const lines: [Level, string, LogFields | undefined][] = [];
+  const log = (level: Level) => (message: string, fields?: LogFields) => {
+    lines.push([level, message, fields]);
+  };
+  return { lines, debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+describe("logging", () => {
+  let server: MockSTTServer;
+
+  before(async () => {
+    server = await MockSTTServer.start({ pricePerMinuteUsd: 0.01 });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("is silent by default", async () => {
+    const calls = (["debug", "info", "log", "warn", "error"] as const).map((method) =>
+      mock.method(console, method, () => {})
+    );
+    const client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+    const stream = await client.session({ minutes: 1 }).open();
+    await stream.sendAudio(Buffer.alloc(32000));
+    await stream.close();
+    assert.deepEqual(calls.map((c) => c.mock.callCount()), [0, 0, 0, 0, 0]);
+  });
+
+  it("sends SDK events to a custom logger with their fields", async () => {
+    const logger = recordingLogger();
+    const client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url, logger });
+    const stream = await client.session({ minutes: 2 }).open();
+    await stream.close();
+
+    const created = logger.lines.find(([, message]) => message === "Session created");
+    assert.deepEqual(created, [
+      "info",
+      "Session created",
+      { sessionId: stream.sessionId, remainingSeconds: 120, priceUsd: "0.020000" },
+    ]);
+    const ready = logger.lines.find(([, message]) => message === "Stream ready");
+    assert.deepEqual(ready, [
+      "info",
+      "Stream ready",
+      { sessionId: stream.sessionId, remainingSeconds: 120 },
+    ]);
+  });
+});
+
+describe("pinoLogger", () => {
+  it("passes the fields first and the message second", () => {
+    const calls: [string, object, string | undefined][] = [];
+    const record = (level: string) => (obj: object, msg?: string) => {
+      calls.push([level, obj, msg]);
+    };
+    const logger = pinoLogger({
+      debug: record("debug"),
+      info: record("info"),
+      warn: record("warn"),
+      error: record("error"),
+    });
+
+    logger.info("Session created", { sessionId: "s1" });
+    logger.warn("Session expiring");
+    logger.debug("Payment settled", { sessionId: "s1" });
+    logger.error("Server error", { message: "boom" });
+    assert.deepEqual(calls, [
+      ["info", { sessionId: "s1" }, "Session created"],
+      ["warn", {}, "Session expiring"],
+      ["debug", { sessionId: "s1" }, "Payment settled"],
+      ["error", { message: "boom" }, "Server error"],
+    ]);
+  });
+});
@@ -0,0 +1,204 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, describe, it } from "node:test";
+
+import {
+  MemorySessionStore,
+  SessionExpiredError,
+  STTClient,
+} from "../src/index.js";
+import type { SessionHandle, SessionStore } from "../src/index.js";
+import { FileSessionStore } from "../src/node.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+import { waitFor } from "./helpers.js";
+
+/** One second of PCM16 16kHz mono silence. */
+const ONE_SECOND = Buffer.alloc(32000);
+
+/** Poll the store until `condition` holds for its contents. */
+async function stored(
+  store: SessionStore,
+  condition: (handles: SessionHandle[]) => boolean
+): Promise<SessionHandle[]> {
+  const deadline = Date.now() + 2000;
+  while (true) {
+    const handles = await store.list();
+    if (condition(handles)) return handles;
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the session store");
+    await sleep(10);
+  }
+}
+
+describe("Session resume", () => {
+  let server: MockSTTServer;
+  let client: STTClient;
+
+  before(async () => {
+    server = await MockSTTServer.start();
+    client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function purchases(): number {
+    return server.requests.filter((r) => r.path === "/v1/session" && r.paid).length;
+  }
+
+  it("exports a handle and resumes it without paying", async () => {
+    const stream = await client.session({ minutes: 2, language: "de" }).open();
+    await stream.sendAudio(ONE_SECOND);
+    const mock = server.sessions.get(stream.sessionId)!;
+    await waitFor(() => Math.abs(mock.audioSeconds - 1) < 1e-6);
+
+    const handle: SessionHandle = JSON.parse(JSON.stringify(stream.exportSession()));
+    await stream.close();
+    assert.equal(handle.sessionId, stream.sessionId);
+    assert.equal(handle.sessionKey, mock.sessionKey);
+    assert.equal(handle.language, "de");
+    assert.equal(handle.remainingSeconds, 119);
+
+    const paid = purchases();
+    const resumed = await client.resumeSession(handle);
+    await resumed.sendAudio(ONE_SECOND);
+    await waitFor(() => Math.abs(mock.audioSeconds - 2) < 1e-6);
+    assert.equal(resumed.sessionId, handle.sessionId);
+    // The mock counts time in float packet durations
+    assert.ok(Math.abs(resumed.exportSession().remainingSeconds - 118) < 1e-6);
+    assert.equal(purchases(), paid);
+    await resumed.close();
+  });
+
+  it("rejects with SessionExpiredError when the key is no longer valid", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    const handle = stream.exportSession();
+    await stream.close();
+    server.expire(stream.sessionId);
+    await assert.rejects(client.resumeSession(handle), SessionExpiredError);
+  });
+
+  it("refuses to resume a session that is already open", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    await assert.rejects(client.resumeSession(stream.exportSession()), /already open/);
+    await stream.close();
+  });
+
+  it("reuses stored sessions with time left before buying", async () => {
+    const store = new MemorySessionStore();
+    const storing = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      sessionStore: store,
+    });
+
+    const first = await storing.session({ minutes: 2 }).open();
+    await first.close();
+    await stored(store, (handles) => handles.length === 1);
+
+    const paid = purchases();
+    const second = await storing.session({ minutes: 2 }).open();
+    assert.equal(second.sessionId, first.sessionId);
+    assert.equal(purchases(), paid);
+
+    // The stored session is in use, and another language needs its own
+    const third = await storing.session({ minutes: 2 }).open();
+    const german = await storing.session({ minutes: 2, language: "de" }).open();
+    assert.notEqual(third.sessionId, second.sessionId);
+    assert.notEqual(german.sessionId, second.sessionId);
+    assert.equal(purchases(), paid + 2);
+
+    await Promise.all([second.close(), third.close(), german.close()]);
+    await stored(store, (handles) => handles.length === 3);
+  });
+
+  it("does not resume a session too short for the purchase without autoExtend", async () => {
+    const store = new MemorySessionStore();
+    const storing = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      sessionStore: store,
+    });
+
+    const first = await storing.session({ minutes: 1 }).open();
+    await first.close();
+    await stored(store, (handles) => handles.length === 1);
+
+    const second = await storing.session({ minutes: 5, autoExtend: false }).open();
+    assert.notEqual(second.sessionId, first.sessionId);
+    await second.close();
+  });
+
+  it("drops expired and refused sessions from the store", async () => {
+    const store = new MemorySessionStore();
+    const storing = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      sessionStore: store,
+    });
+
+    const expiring = await storing.session({ minutes: 1 }).open();
+    server.expire(expiring.sessionId);
+    await stored(store, (handles) => handles.length === 0);
+
+    await store.save({
+      sessionId: "stale",
+      sessionKey: "not-a-key",
+      language: "en",
+      remainingSeconds: 300,
+      exportedAt: new Date().toISOString(),
+    });
+    const stream = await storing.session({ minutes: 1 }).open();
+    assert.notEqual(stream.sessionId, "stale");
+    const handles = await store.list();
+    assert.deepEqual(handles.map((h) => h.sessionId), [stream.sessionId]);
+    await stream.close();
+  });
+
+  it("keeps sessions in a file across clients", async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "stt-test-")), "sessions.json");
+    const options = { privateKey: TEST_EVM_PRIVATE_KEY, url: server.url };
+
+    const firstStore = new FileSessionStore(path);
+    const first = await new STTClient({ ...options, sessionStore: firstStore }).session().open();
+    await first.close();
+    await stored(firstStore, (handles) => handles.length === 1);
+    assert.equal(statSync(path).mode & 0o777, 0o600);
+
+    // A new process reads the same file
+    const paid = purchases();
+    const restarted = new STTClient({ ...options, sessionStore: new FileSessionStore(path) });
+    const second = await restarted.session().open();
+    assert.equal(second.sessionId, first.sessionId);
+    assert.equal(purchases(), paid);
+    await second.close();
+  });
+
+  it("serializes file store updates", async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "stt-test-")), "sessions.json");
+    const store = new FileSessionStore(path);
+    const handle = (sessionId: string): SessionHandle => ({
+      sessionId,
+      sessionKey: `key-${sessionId}`,
+      language: "en",
+      remainingSeconds: 60,
+      exportedAt: new Date().toISOString(),
+    });
+
+    await Promise.all([
+      store.save(handle("a")),
+      store.save(handle("b")),
+      store.save(handle("c")),
+      store.remove("b"),
+      store.save({ ...handle("a"), remainingSeconds: 30 }),
+    ]);
+    const handles = await new FileSessionStore(path).list();
+    assert.deepEqual(
+      handles.map((h) => [h.sessionId, h.remainingSeconds]),
+      [["c", 60], ["a", 30]]
+    );
+  });
+});
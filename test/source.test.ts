@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { AudioFormatError, decodeWav } from "../src/index.js";
+import { WavStreamDecoder, decodeSource } from "../src/source.js";
+import { toneAndSilence, wavBytes } from "./helpers.js";
+
+/** Decode `bytes` with a fresh decoder, fed `size` bytes at a time. */
+function decodeInChunks(bytes: Uint8Array, size = 1): Buffer {
+  const decoder = new WavStreamDecoder();
+  const out: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    out.push(decoder.convert(bytes.subarray(offset, offset + size)));
+  }
+  out.push(decoder.flush());
+  return Buffer.concat(out);
+}
+
+/** Interleaved 24-bit stereo samples of a ramp, `frames` long. */
+function ramp24Stereo(frames: number): Buffer {
+  const out = Buffer.alloc(frames * 6);
+  for (let i = 0; i < frames; i++) {
+    const value = Math.round(((i % 200) / 200 - 0.5) * 0x7fffff);
+    out.writeIntLE(value, i * 6, 3);
+    out.writeIntLE(-value, i * 6 + 3, 3);
+  }
+  return out;
+}
+
+describe("WavStreamDecoder", () => {
+  const pcm = toneAndSilence([true, false]);
+
+  it("decodes a WAV fed one byte at a time like decodeWav", () => {
+    const wav = wavBytes({
+      data: pcm,
+      // An odd-sized chunk is padded to an even size
+      leading: [["LIST", Buffer.from("INFOISFT")], ["junk", Buffer.from([1, 2, 3])]],
+      trailing: [["LIST", Buffer.from("INFOICMT")]],
+    });
+    assert.deepEqual(decodeInChunks(wav), Buffer.from(decodeWav(wav).pcmData));
+    assert.deepEqual(decodeInChunks(wav, 4096), pcm);
+  });
+
+  it("converts other formats the same in chunks as in one piece", () => {
+    const wav = wavBytes({
+      channels: 2,
+      sampleRate: 44100,
+      bitsPerSample: 24,
+      data: ramp24Stereo(4410),
+    });
+    const whole = Buffer.from(decodeWav(wav).pcmData);
+    assert.ok(whole.length > 0);
+    assert.deepEqual(decodeInChunks(wav), whole);
+    assert.deepEqual(decodeInChunks(wav, 1001), whole);
+  });
+
+  it("reads streamed WAVs whose data size is left open", () => {
+    for (const dataSize of [0, 0xffffffff]) {
+      const wav = wavBytes({ data: pcm, dataSize });
+      assert.deepEqual(decodeInChunks(wav), pcm, `data size ${dataSize}`);
+    }
+  });
+
+  it("ignores chunks after a sized data chunk", () => {
+    const wav = wavBytes({ data: pcm.subarray(0, 1000), trailing: [["LIST", Buffer.alloc(64, 7)]] });
+    assert.deepEqual(decodeInChunks(wav), pcm.subarray(0, 1000));
+  });
+
+  it("throws AudioFormatError on flush when the header is cut short", () => {
+    const wav = wavBytes({ data: pcm });
+    assert.throws(() => decodeInChunks(wav.subarray(0, 30)), (e: unknown) => {
+      assert.ok(e instanceof AudioFormatError);
+      assert.match(e.message, /incomplete header/);
+      return true;
+    });
+    // fmt read, but the stream ends before the data chunk
+    assert.throws(() => decodeInChunks(wav.subarray(0, 38)), /no data chunk/);
+  });
+
+  it("rejects input that is not a WAV", () => {
+    assert.throws(() => decodeInChunks(Buffer.from("ID3\u0004 not a riff file")), AudioFormatError);
+  });
+});
+
+describe("decodeSource", () => {
+  it("decodes an async iterable of single bytes", async () => {
+    const wav = wavBytes({ data: toneAndSilence([true]), leading: [["LIST", Buffer.alloc(10)]] });
+    async function* bytes() {
+      for (let i = 0; i < wav.length; i++) yield wav.subarray(i, i + 1);
+    }
+    const out: Uint8Array[] = [];
+    for await (const chunk of decodeSource(bytes())) out.push(chunk);
+    assert.deepEqual(Buffer.concat(out), Buffer.from(decodeWav(wav).pcmData));
+  });
+
+  it("treats the input as headerless audio when raw is given", async () => {
+    async function* bytes() {
+      yield new Uint8Array([0xff, 0xff, 0x00]);
+    }
+    const out: Uint8Array[] = [];
+    for await (const chunk of decodeSource(bytes(), { encoding: "mulaw", sampleRate: 16000 })) {
+      out.push(chunk);
+    }
+    // μ-law 0xff is 0, 0x00 is the most negative sample
+    assert.deepEqual(Buffer.concat(out), Buffer.from([0, 0, 0, 0, 0x84, 0x82]));
+  });
+});
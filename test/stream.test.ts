@@ -0,0 +1,465 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { after, before, describe, it } from "node:test";
+
+import {
+  AbortError,
+  ConnectionError,
+  SessionExpiredError,
+  STTClient,
+  STTError,
+} from "../src/index.js";
+import type {
+  Language,
+  Stream,
+  StreamUsage,
+  Transcription,
+  WebSocketLike,
+} from "../src/index.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+import { once, waitFor, wavFile } from "./helpers.js";
+
+/** One second of PCM16 16kHz mono silence. */
+const ONE_SECOND = Buffer.alloc(32000);
+
+describe("Stream", () => {
+  let server: MockSTTServer;
+  let client: STTClient;
+
+  before(async () => {
+    server = await MockSTTServer.start({
+      transcripts: [
+        { text: "hel", atSecond: 0.5, isFinal: false },
+        { text: "hello", atSecond: 1, start: 0, end: 1, confidence: 0.9 },
+        { text: "world", atSecond: 2, start: 1, end: 2 },
+      ],
+    });
+    client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function collect(
+    stream: Stream,
+    count: number,
+    signal?: AbortSignal
+  ): Promise<Transcription[]> {
+    const items: Transcription[] = [];
+    for await (const t of stream.transcriptions({ signal })) {
+      items.push(t);
+      if (items.length === count) break;
+    }
+    return items;
+  }
+
+  it("sends audio and yields scripted transcriptions", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      await stream.sendAudio(ONE_SECOND);
+      await stream.sendAudio(ONE_SECOND);
+      const items = await collect(stream, 3);
+      assert.deepEqual(items.map((t) => [t.text, t.isFinal]), [
+        ["hel", false],
+        ["hello", true],
+        ["world", true],
+      ]);
+      assert.equal(items[1].confidence, 0.9);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("sends whole samples in chunk-sized packets", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      await stream.sendAudio(Buffer.alloc(3));
+      await stream.sendAudio(Buffer.alloc(6402));
+      await stream.sendAudio(Buffer.alloc(1));
+      const session = server.sessions.get(stream.sessionId)!;
+      // The odd byte of each call is held for the next one
+      const expected = [2, ...Array<number>(10).fill(640), 2, 2];
+      await waitFor(() => session.packetSizes.length === expected.length);
+      assert.deepEqual(session.packetSizes, expected);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("takes the audio format as an option or positionally", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      const mulaw = { encoding: "mulaw", sampleRate: 16000 } as const;
+      // Each μ-law byte becomes a two-byte PCM16 sample
+      await stream.sendAudio(Buffer.alloc(160), { format: mulaw });
+      await stream.sendAudio(Buffer.alloc(160), mulaw);
+      await stream.sendAudio(Buffer.alloc(160), { signal: new AbortController().signal });
+      const session = server.sessions.get(stream.sessionId)!;
+      await waitFor(() => session.packetSizes.length === 3);
+      assert.deepEqual(session.packetSizes, [320, 320, 160]);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("rejects a format mixed with options", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      const mixed = { encoding: "mulaw", signal: new AbortController().signal } as const;
+      await assert.rejects(stream.sendAudio(Buffer.alloc(160), mixed), {
+        name: "STTError",
+        message: /takes a format or options, not both/,
+      });
+      assert.equal(server.sessions.get(stream.sessionId)!.packetSizes.length, 0);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("rejects sends with ConnectionError once the socket is gone", async () => {
+    const stream = await client.session({ minutes: 1, reconnect: false }).open();
+    const closed = once(stream, "closed");
+    server.dropConnections();
+    await closed;
+    await assert.rejects(stream.sendAudio(ONE_SECOND), ConnectionError);
+  });
+
+  it("transcribes a file without pacing", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      const texts: string[] = [];
+      for await (const t of stream.transcribeFile(wavFile(2), {
+        pacing: { unthrottled: true },
+        trailingSilenceSeconds: 0,
+        drainTimeoutMs: 200,
+      })) {
+        if (t.isFinal) texts.push(t.text);
+      }
+      assert.deepEqual(texts, ["hello", "world"]);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("sends files in chunkMs messages", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      const session = server.sessions.get(stream.sessionId)!;
+      for await (const _ of stream.transcribeFile(wavFile(1), {
+        pacing: { unthrottled: true, chunkMs: 100 },
+        trailingSilenceSeconds: 0.25,
+        drainTimeoutMs: 100,
+      })) {
+        // drain
+      }
+      // One second in 100ms messages, then the silence in the same size
+      assert.deepEqual(session.packetSizes, [...Array<number>(12).fill(3200), 1600]);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("rejects a chunkMs that is not a positive number", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      for (const chunkMs of [0, -20, NaN, Infinity]) {
+        await assert.rejects(
+          stream.transcribeFile(wavFile(1), { pacing: { chunkMs } }).next(),
+          RangeError
+        );
+      }
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("accepts audio as ArrayBuffer and files as bytes", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      await stream.sendAudio(new ArrayBuffer(32000));
+      const session = server.sessions.get(stream.sessionId)!;
+      await waitFor(() => session.audioSeconds >= 1);
+
+      const bytes = new Uint8Array(readFileSync(wavFile(2)));
+      const texts: string[] = [];
+      for await (const t of stream.transcribeFile(bytes, {
+        pacing: { unthrottled: true },
+        trailingSilenceSeconds: 0,
+        drainTimeoutMs: 200,
+      })) {
+        if (t.isFinal) texts.push(t.text);
+      }
+      assert.ok(texts.length > 0);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("auto-extends when the session is expiring", async () => {
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      const sessionId = [...server.sessions.values()].at(-1)!.sessionId;
+      const extended = once(stream, "extended");
+      server.sendExpiring(sessionId);
+      const [event] = await extended;
+      assert.equal(event.remainingSeconds, 60 + 5 * 60);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("tracks audio sent, remaining time and purchases", async () => {
+    const stream = await client.session({ minutes: 2 }).open();
+    try {
+      const updates: StreamUsage[] = [];
+      stream.on("usage", (u) => updates.push(u));
+      await stream.sendAudio(ONE_SECOND);
+      assert.deepEqual(stream.usage, {
+        sessionId: stream.sessionId,
+        audioSeconds: 1,
+        remainingSeconds: 119,
+        serverRemainingSeconds: 120,
+        minutesPurchased: 2,
+        spentUsd: 0.01,
+      });
+      // One update per packet
+      assert.equal(updates.length, 50);
+
+      server.sendExpiring(stream.sessionId);
+      await waitFor(
+        () => stream.usage.minutesPurchased === 7 && stream.usage.serverRemainingSeconds > 120
+      );
+      const usage = stream.usage;
+      assert.ok(Math.abs(usage.spentUsd - 0.035) < 1e-9);
+      assert.ok(Math.abs(usage.serverRemainingSeconds - (119 + 5 * 60)) < 1e-6);
+      assert.equal(updates.at(-1)!.minutesPurchased, 7);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("throws SessionExpiredError from transcriptions when time runs out", async () => {
+    const stream = await client.session({ minutes: 1, autoExtend: false }).open();
+    const sessionId = [...server.sessions.values()].at(-1)!.sessionId;
+    const closed = once(stream, "closed");
+    server.expire(sessionId);
+    await assert.rejects(collect(stream, 10), SessionExpiredError);
+    const [event] = await closed;
+    assert.equal(event.reason, "expired");
+  });
+
+  it("reconnects and replays audio after a dropped connection", async () => {
+    const stream = await client.session({ minutes: 1, reconnectDelayMs: 10 }).open();
+    try {
+      const session = [...server.sessions.values()].at(-1)!;
+      const reconnecting = once(stream, "reconnecting");
+      const reconnected = once(stream, "reconnected");
+      server.dropConnections();
+      await reconnecting;
+      // Sent while the socket is down: buffered, then replayed
+      await stream.sendAudio(ONE_SECOND);
+      const [event] = await reconnected;
+      assert.equal(event.replayedBytes, ONE_SECOND.length);
+      // Replayed in the same 20ms packets as live audio
+      await waitFor(() => session.packetSizes.length >= 50);
+      assert.deepEqual(session.packetSizes, Array<number>(50).fill(640));
+
+      const items = await collect(stream, 2);
+      assert.deepEqual(items.map((t) => t.text), ["hel", "hello"]);
+      assert.ok(session.audioSeconds >= 1);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("keeps timestamps increasing across a reconnect", async () => {
+    const stream = await client.session({ minutes: 1, reconnectDelayMs: 10 }).open();
+    try {
+      await stream.sendAudio(ONE_SECOND);
+      await stream.sendAudio(ONE_SECOND);
+      const before = await collect(stream, 3);
+
+      const reconnecting = once(stream, "reconnecting");
+      const reconnected = once(stream, "reconnected");
+      server.dropConnections();
+      await reconnecting;
+      // Buffered and replayed, then sent live on the new connection
+      await stream.sendAudio(ONE_SECOND);
+      await reconnected;
+      await stream.sendAudio(ONE_SECOND);
+      const after = await collect(stream, 3);
+
+      // The server counts from zero again on the new connection
+      assert.deepEqual(
+        [...before, ...after].filter((t) => t.isFinal).map((t) => [t.text, t.start, t.end]),
+        [
+          ["hello", 0, 1],
+          ["world", 1, 2],
+          ["hello", 2, 3],
+          ["world", 3, 4],
+        ]
+      );
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("gives up with ConnectionError after the retry budget", async () => {
+    const stream = await client
+      .session({ minutes: 1, maxReconnectAttempts: 2, reconnectDelayMs: 10 })
+      .open();
+    const failed = once(stream, "reconnectFailed");
+    server.rejectConnections(2);
+    server.dropConnections();
+    const [error] = await failed;
+    assert.ok(error instanceof ConnectionError);
+    await assert.rejects(stream.sendAudio(ONE_SECOND), ConnectionError);
+  });
+
+  describe("language", () => {
+    it("switches language mid-stream and keeps it across reconnects", async () => {
+      const stream = await client.session({ minutes: 1, reconnectDelayMs: 10 }).open();
+      try {
+        const session = server.sessions.get(stream.sessionId)!;
+        assert.equal(await stream.setLanguage("de"), true);
+        assert.equal(stream.language, "de");
+        assert.equal(session.language, "de");
+
+        const reconnected = once(stream, "reconnected");
+        server.dropConnections();
+        await reconnected;
+        const configs = server.messages.filter((m) => m.type === "config");
+        assert.equal(configs.at(-1)!.language, "de");
+      } finally {
+        await stream.close();
+      }
+    });
+
+    it("reports a language the server refuses", async () => {
+      const limited = await MockSTTServer.start({ languages: ["en", "de"] });
+      try {
+        const limitedClient = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: limited.url });
+        const stream = await limitedClient.session({ minutes: 1 }).open();
+        assert.equal(await stream.setLanguage("fr"), false);
+        assert.equal(stream.language, "en");
+        assert.equal(await stream.setLanguage("de"), true);
+        await stream.close();
+        await assert.rejects(stream.setLanguage("en"), /closed/);
+      } finally {
+        await limited.close();
+      }
+    });
+
+    it("passes other server errors through while a change is pending", async () => {
+      const stream = await client.session({ minutes: 1 }).open();
+      try {
+        const errors: string[] = [];
+        stream.on("serverError", ({ message }) => errors.push(message));
+        const changed = stream.setLanguage("fr");
+        // Sent before the mock reads the config, so it arrives first
+        server.send({ type: "error", message: "Transcriber restarted" }, stream.sessionId);
+        assert.equal(await changed, true);
+        assert.deepEqual(errors, ["Transcriber restarted"]);
+        assert.equal(stream.language, "fr");
+      } finally {
+        await stream.close();
+      }
+    });
+
+    it("rejects unsupported codes without sending them", async () => {
+      const stream = await client.session({ minutes: 1 }).open();
+      try {
+        const before = server.messages.length;
+        await assert.rejects(stream.setLanguage("xx" as Language), STTError);
+        assert.equal(server.messages.length, before);
+      } finally {
+        await stream.close();
+      }
+    });
+  });
+
+  describe("cancellation", () => {
+    it("aborts open() while waiting for ready", async () => {
+      let closed = false;
+      const silent: WebSocketLike = {
+        readyState: 0,
+        bufferedAmount: 0,
+        binaryType: "blob",
+        onopen: null,
+        onmessage: null,
+        onclose: null,
+        onerror: null,
+        send: () => {},
+        close: () => {
+          closed = true;
+        },
+      };
+      const stalled = new STTClient({
+        privateKey: TEST_EVM_PRIVATE_KEY,
+        url: server.url,
+        webSocket: () => silent,
+      });
+      const controller = new AbortController();
+      const opening = stalled.session({ minutes: 1 }).open({ signal: controller.signal });
+      await waitFor(() => silent.onopen !== null);
+      controller.abort();
+      await assert.rejects(opening, AbortError);
+      assert.ok(closed);
+    });
+
+    it("settles every waiting consumer when transcriptions() is aborted", async () => {
+      const stream = await client.session({ minutes: 1 }).open();
+      const controller = new AbortController();
+      const closed = once(stream, "closed");
+      const aborted = collect(stream, 10, controller.signal);
+      const other = collect(stream, 10);
+      controller.abort();
+
+      await assert.rejects(aborted, AbortError);
+      await assert.rejects(other, AbortError);
+      const [event] = await closed;
+      assert.equal(event.reason, "aborted");
+      await assert.rejects(stream.sendAudio(ONE_SECOND), AbortError);
+    });
+
+    it("aborts transcribeFile mid-file", async () => {
+      const stream = await client.session({ minutes: 1 }).open();
+      const signal = AbortSignal.timeout(100);
+      const started = Date.now();
+      await assert.rejects(async () => {
+        for await (const _ of stream.transcribeFile(wavFile(5), { signal })) {
+          // drain
+        }
+      }, AbortError);
+      assert.ok(Date.now() - started < 2000);
+    });
+
+    it("closes an open stream when the session's signal aborts", async () => {
+      const controller = new AbortController();
+      const stream = await client.session({ minutes: 1, signal: controller.signal }).open();
+      const closed = once(stream, "closed");
+      controller.abort(new Error("shutting down"));
+      const [event] = await closed;
+      assert.equal(event.reason, "aborted");
+      assert.ok(event.error instanceof AbortError);
+      assert.equal(event.error.message, "Aborted: shutting down");
+    });
+
+    it("rejects sendAudio with an aborted signal", async () => {
+      const stream = await client.session({ minutes: 1 }).open();
+      await assert.rejects(
+        stream.sendAudio(ONE_SECOND, { signal: AbortSignal.abort() }),
+        AbortError
+      );
+    });
+
+    it("still takes the signal after a positional format", async () => {
+      const stream = await client.session({ minutes: 1 }).open();
+      await assert.rejects(
+        stream.sendAudio(ONE_SECOND, undefined, { signal: AbortSignal.abort() }),
+        AbortError
+      );
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { TranscriptBuilder } from "../src/index.js";
+import type { Transcription } from "../src/index.js";
+
+function build(...items: Partial<Transcription>[]): TranscriptBuilder {
+  const builder = new TranscriptBuilder();
+  for (const item of items) builder.add({ text: "", isFinal: true, ...item });
+  return builder;
+}
+
+describe("TranscriptBuilder", () => {
+  it("formats SRT and WebVTT timestamps", () => {
+    const builder = build(
+      { text: " Hello world ", start: 3661.5, end: 3662.25 },
+      { text: "Second", start: 3663, end: 3664.0004 }
+    );
+    assert.equal(
+      builder.toSRT(),
+      "1\n01:01:01,500 --> 01:01:02,250\nHello world\n\n" +
+        "2\n01:01:03,000 --> 01:01:04,000\nSecond\n"
+    );
+    assert.equal(
+      builder.toVTT(),
+      "WEBVTT\n\n" +
+        "01:01:01.500 --> 01:01:02.250\nHello world\n\n" +
+        "01:01:03.000 --> 01:01:04.000\nSecond\n"
+    );
+  });
+
+  it("wraps lines at 42 characters, two lines per cue", () => {
+    const text = Array.from({ length: 10 }, (_, i) => `segment-${i}`).join(" ");
+    const builder = build({ text, start: 0, end: 4.85 });
+    // Cue time is shared by text length: 78 and 19 characters
+    assert.equal(
+      builder.toSRT(),
+      "1\n00:00:00,000 --> 00:00:03,900\n" +
+        "segment-0 segment-1 segment-2 segment-3\n" +
+        "segment-4 segment-5 segment-6 segment-7\n\n" +
+        "2\n00:00:03,900 --> 00:00:04,850\nsegment-8 segment-9\n"
+    );
+  });
+
+  it("splits cues longer than maxCueDuration without gaps", () => {
+    const builder = build(
+      { text: "aaaa bbbb cccc dddd", start: 0, end: 16 },
+      { text: "Hmm", start: 20, end: 30 }
+    );
+    assert.equal(
+      builder.toSRT(),
+      "1\n00:00:00,000 --> 00:00:04,000\naaaa\n\n" +
+        "2\n00:00:04,000 --> 00:00:08,000\nbbbb\n\n" +
+        "3\n00:00:08,000 --> 00:00:12,000\ncccc\n\n" +
+        "4\n00:00:12,000 --> 00:00:16,000\ndddd\n\n" +
+        // A single word cannot be split, so it is cut short
+        "5\n00:00:20,000 --> 00:00:27,000\nHmm\n"
+    );
+    assert.equal(
+      builder.toSRT({ maxCueDuration: 10 }).split("\n\n").length,
+      3
+    );
+  });
+
+  it("escapes WebVTT markup but not SRT", () => {
+    const builder = build({ text: "a < b & c > d", start: 0, end: 1 });
+    assert.equal(
+      builder.toVTT(),
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.000\na &lt; b &amp; c &gt; d\n"
+    );
+    assert.equal(builder.toSRT(), "1\n00:00:00,000 --> 00:00:01,000\na < b & c > d\n");
+  });
+
+  it("replaces interim results until a final arrives", () => {
+    const builder = build({ text: "hel", isFinal: false }, { text: "hello", isFinal: false });
+    assert.equal(builder.interim?.text, "hello");
+    assert.equal(builder.segments.length, 0);
+
+    builder.add({ text: "hello there", start: 0, end: 1, isFinal: true });
+    assert.equal(builder.interim, null);
+    assert.equal(builder.toText(), "hello there");
+  });
+
+  it("keeps segments ordered by start and fills in missing times", () => {
+    const builder = build(
+      { text: "c", start: 5, end: 6 },
+      { text: "a", start: 1, end: 2 },
+      { text: "d", start: 5, end: 5.5 },
+      { text: "b", start: 3, end: 4 },
+      // No end: estimated from the text at 15 characters per second
+      { text: "fifteen chars!!", start: 10 }
+    );
+    assert.deepEqual(
+      builder.segments.map((s) => [s.text, s.start, s.end]),
+      [
+        ["a", 1, 2],
+        ["b", 3, 4],
+        ["c", 5, 6],
+        ["d", 5, 5.5],
+        ["fifteen chars!!", 10, 11],
+      ]
+    );
+    assert.equal(builder.format("txt"), "a b c d fifteen chars!!\n");
+    assert.equal(builder.toJSON().duration, 11);
+  });
+});
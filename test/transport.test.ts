@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, it } from "node:test";
+import WebSocket from "ws";
+
+import { STTClient } from "../src/index.js";
+import type { WebSocketLike } from "../src/index.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+import { waitFor } from "./helpers.js";
+
+describe("WebSocket transport", () => {
+  let server: MockSTTServer;
+  const hadGlobal = "WebSocket" in globalThis;
+  const original = (globalThis as { WebSocket?: unknown }).WebSocket;
+
+  before(async () => {
+    server = await MockSTTServer.start();
+  });
+
+  afterEach(() => {
+    if (hadGlobal) (globalThis as { WebSocket?: unknown }).WebSocket = original;
+    else delete (globalThis as { WebSocket?: unknown }).WebSocket;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("prefers the runtime's global WebSocket", async () => {
+    const urls: string[] = [];
+    (globalThis as { WebSocket?: unknown }).WebSocket = class extends WebSocket {
+      constructor(url: string) {
+        super(url);
+        urls.push(url);
+      }
+    };
+    const client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+    const stream = await client.session({ minutes: 1 }).open();
+    await stream.close();
+    assert.deepEqual(urls, [`${server.url.replace("http://", "ws://")}/v1/stream`]);
+  });
+
+  it("uses the webSocket option when given", async () => {
+    let opened = 0;
+    const client = new STTClient({
+      privateKey: TEST_EVM_PRIVATE_KEY,
+      url: server.url,
+      webSocket: (url) => {
+        opened++;
+        return new WebSocket(url) as unknown as WebSocketLike;
+      },
+    });
+    const stream = await client.session({ minutes: 1 }).open();
+    try {
+      await stream.sendAudio(new Uint8Array(3200));
+      assert.equal(opened, 1);
+      const session = server.sessions.get(stream.sessionId)!;
+      await waitFor(() => session.audioSeconds === 0.1);
+    } finally {
+      await stream.close();
+    }
+  });
+});
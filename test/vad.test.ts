@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { STTClient, VoiceActivityDetector } from "../src/index.js";
+import type { Transcription } from "../src/index.js";
+import { MockSTTServer, TEST_EVM_PRIVATE_KEY } from "../src/testing.js";
+import { toneAndSilence, wavFromPcm } from "./helpers.js";
+
+// tone 0-1s, silence 1-6s, tone 6-7s
+const PATTERN = [true, false, false, false, false, false, true];
+
+describe("VoiceActivityDetector", () => {
+  it("keeps speech with hangover, gap and pre-roll and drops the rest", () => {
+    const vad = new VoiceActivityDetector();
+    const sent = Buffer.concat([vad.process(toneAndSilence(PATTERN)), vad.flush()]);
+
+    // 1s tone + 0.3s hangover + 0.2s gap + 0.2s pre-roll + 1s tone
+    assert.equal(sent.length / 32000, 2.7);
+    assert.deepEqual(vad.stats, { inputSeconds: 7, sentSeconds: 2.7, savedSeconds: 4.3 });
+  });
+
+  it("ends speech on the first silent frame without hangover", () => {
+    const vad = new VoiceActivityDetector({ hangoverMs: 0 });
+    const sent = Buffer.concat([vad.process(toneAndSilence(PATTERN)), vad.flush()]);
+
+    // 1s tone + 0.2s gap + 0.2s pre-roll + 1s tone
+    assert.equal(sent.length / 32000, 2.4);
+    assert.ok(Math.abs(vad.toOriginalTime(1.2) - 5.8) < 1e-9);
+    // Speech ends after the second tone too, so a trailing partial frame is dropped
+    vad.process(Buffer.concat([toneAndSilence([false]), Buffer.alloc(100)]));
+    assert.equal(vad.flush().length, 0);
+  });
+
+  it("maps sent times back to the input timeline", () => {
+    const vad = new VoiceActivityDetector();
+    vad.process(toneAndSilence(PATTERN));
+
+    assert.equal(vad.toOriginalTime(0.5), 0.5);
+    assert.equal(vad.toOriginalTime(1.4), 1.4);
+    // Pre-roll of the second tone starts at 1.5s sent, 5.8s original
+    assert.ok(Math.abs(vad.toOriginalTime(1.5) - 5.8) < 1e-9);
+    assert.ok(Math.abs(vad.toOriginalTime(2.0) - 6.3) < 1e-9);
+  });
+
+  it("counts quiet high-frequency frames as speech", () => {
+    const vad = new VoiceActivityDetector();
+    // Alternating samples: maximal zero-crossing rate at low energy
+    const hiss = Buffer.alloc(32000);
+    for (let i = 0; i < 16000; i++) hiss.writeInt16LE(i % 2 ? 150 : -150, i * 2);
+    assert.equal(vad.process(hiss).length, hiss.length);
+  });
+});
+
+describe("Stream with vad", () => {
+  let server: MockSTTServer;
+  let client: STTClient;
+
+  before(async () => {
+    server = await MockSTTServer.start({
+      transcripts: [{ text: "second", atSecond: 2.5, start: 2.0, end: 2.5 }],
+    });
+    client = new STTClient({ privateKey: TEST_EVM_PRIVATE_KEY, url: server.url });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("sends only speech and reports original timestamps", async () => {
+    const stream = await client.session({ minutes: 1, vad: true }).open();
+    const results: Transcription[] = [];
+    for await (const t of stream.transcribeFile(wavFromPcm(toneAndSilence(PATTERN)), {
+      pacing: { unthrottled: true },
+      trailingSilenceSeconds: 0.5,
+      drainTimeoutMs: 200,
+    })) {
+      results.push(t);
+    }
+    const stats = stream.vadStats!;
+    await stream.close();
+
+    assert.equal(results.length, 1);
+    assert.ok(Math.abs(results[0].start! - 6.3) < 1e-9);
+    assert.ok(Math.abs(results[0].end! - 6.8) < 1e-9);
+    assert.ok(Math.abs(stats.savedSeconds - 4.3) < 1e-9);
+    // 2.7s of speech plus 0.5s of trailing silence reached the server
+    assert.ok(Math.abs([...server.sessions.values()].at(-1)!.audioSeconds - 3.2) < 1e-9);
+  });
+});